@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { conduct, pacemaker_beats } from "./arrhythmia";
+import { mulberry32 } from "./rng";
+
+const sinus = new Array(40).fill(0.42);
+const sum = (xs: number[]) => xs.reduce((s, v) => s + v, 0);
+
+describe("conduct", () => {
+  it("should leave sinus beats untouched", () => {
+    const { T, beat_types } = conduct(sinus, "sinus", mulberry32(1));
+    expect(T).toEqual(sinus);
+    expect(beat_types.every((b) => b === "sinus")).toBe(true);
+  });
+
+  it("should follow each PAC with a compensatory pause", () => {
+    const { T, beat_types } = conduct(sinus, "pac", mulberry32(2), { ectopic_prob: 0.3 });
+    expect(T).toHaveLength(sinus.length);
+    expect(sum(T)).toBeCloseTo(sum(sinus), 9);
+    const k = beat_types.indexOf("pac");
+    expect(k).toBeGreaterThan(0);
+    expect(T[k - 1]).toBeLessThan(0.42);
+    expect(T[k - 1] + T[k]).toBeCloseTo(2 * 0.42, 9);
+  });
+
+  it("should drop the beat of a blocked PAC and label the one after the pause", () => {
+    const { T, beat_types } = conduct(sinus, "blocked_pac", mulberry32(3), { ectopic_prob: 0.3 });
+    const k = beat_types.indexOf("blocked_pac");
+    expect(k).toBeGreaterThan(0);
+    expect(T.length).toBeLessThan(sinus.length);
+    expect(T[k - 1]).toBeGreaterThan(1.5 * 0.42);
+    expect(T[k - 1]).toBeLessThan(2 * 0.42);
+  });
+
+  it("should conduct every second beat in 2:1 block", () => {
+    const { T, beat_types } = conduct(sinus, "av_block_2to1", mulberry32(4));
+    expect(T).toHaveLength(sinus.length / 2);
+    expect(T[0]).toBeCloseTo(0.84, 9);
+    expect(beat_types.every((b) => b === "av_block_2to1")).toBe(true);
+  });
+});
+
+describe("pacemaker_beats", () => {
+  it("should hold the requested rate", () => {
+    const T = pacemaker_beats(240, mulberry32(5), { duration_sec: 30 });
+    expect(60 / (sum(T) / T.length)).toBeGreaterThan(235);
+    expect(sum(T)).toBeGreaterThanOrEqual(30);
+  });
+});
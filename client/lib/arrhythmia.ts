@@ -0,0 +1,87 @@
+// Fetal rhythm classes for the fPCG simulator
+// Heart sounds follow ventricular contraction, so each class is modelled as what the ventricles do with
+// the sinus beat train from fhr.ts: premature or dropped atrial beats, AV conduction block, or an
+// independent ectopic / escape pacemaker. Every audible beat gets a label.
+
+import { gaussian, type RNG } from "./rng";
+
+export type FetalRhythmType =
+  | "sinus"
+  | "sinus_bradycardia"
+  | "sinus_tachycardia"
+  | "pac" // premature atrial contractions, conducted, with a compensatory pause
+  | "blocked_pac" // premature atrial beats that are not conducted: a pause without a premature sound
+  | "av_block_2to1" // every second atrial beat conducted
+  | "av_block_complete" // slow ventricular escape rhythm, independent of the atria
+  | "svt"; // sustained supraventricular tachycardia
+
+// Label of each audible beat. "blocked_pac" marks the beat that ends the pause left by a blocked PAC.
+export type BeatType = "sinus" | "pac" | "blocked_pac" | "av_block_2to1" | "av_block_complete" | "svt";
+
+export type RhythmOptions = {
+  ectopic_prob?: number; // pac / blocked_pac: chance per sinus beat
+  prematurity_range?: [number, number]; // coupling interval as a fraction of the sinus RR
+  svt_rate_bpm?: number;
+  escape_rate_bpm?: number; // complete AV block
+};
+
+// Baseline rate each class starts from; explicit fhr still wins
+export function rhythm_defaults(rhythm: FetalRhythmType): { fhr?: number } {
+  if (rhythm === "sinus_bradycardia") return { fhr: 95 };
+  if (rhythm === "sinus_tachycardia") return { fhr: 180 };
+  return {};
+}
+
+// SVT and complete block replace the sinus train with a near-fixed pacemaker
+export function is_independent_rhythm(rhythm: FetalRhythmType) {
+  return rhythm === "svt" || rhythm === "av_block_complete";
+}
+
+// Near-fixed-rate beats (little variability, as in SVT or escape rhythms) until n_beats or duration_sec
+export function pacemaker_beats(rate_bpm: number, rand: RNG, length: { n_beats?: number; duration_sec?: number }, jitter_frac = 0.01) {
+  const n_beats = length.n_beats ?? Infinity;
+  const duration_sec = length.duration_sec ?? Infinity;
+  const rr0 = 60 / rate_bpm;
+  const T: number[] = [];
+  let tb = 0;
+  while (T.length < n_beats && tb < duration_sec) {
+    const rr = Math.max(0.15, rr0 * (1 + jitter_frac * gaussian(rand)));
+    T.push(rr);
+    tb += rr;
+  }
+  return T;
+}
+
+// Ventricular beats from a sinus RR series; they end no later than the sinus train.
+export function conduct(T_sinus: number[], rhythm: FetalRhythmType, rand: RNG, opts: RhythmOptions = {}): { T: number[]; beat_types: BeatType[] } {
+  const { ectopic_prob = 0.1, prematurity_range = [0.6, 0.75] } = opts;
+  if (rhythm === "av_block_2to1") {
+    const T: number[] = [];
+    for (let k = 0; k + 1 < T_sinus.length; k += 2) T.push(T_sinus[k] + T_sinus[k + 1]);
+    return { T, beat_types: T.map(() => "av_block_2to1" as const) };
+  }
+  if (rhythm !== "pac" && rhythm !== "blocked_pac") return { T: T_sinus.slice(), beat_types: T_sinus.map(() => "sinus" as const) };
+
+  const T = T_sinus.slice();
+  const beat_types: BeatType[] = T.map(() => "sinus");
+  // beat k is the premature one: it shortens the RR before it. Never two in a row.
+  for (let k = 1; k < T.length - 1; k++) {
+    if (beat_types[k - 1] !== "sinus" || rand() >= ectopic_prob) continue;
+    const c = prematurity_range[0] + rand() * (prematurity_range[1] - prematurity_range[0]);
+    const rr = T[k - 1];
+    if (rhythm === "pac") {
+      // compensatory: the premature beat plus the pause after it span two sinus cycles
+      T[k - 1] = c * rr;
+      T[k] += (1 - c) * rr;
+      beat_types[k] = "pac";
+    } else {
+      // the premature atrial beat is not conducted but resets the sinus node: beat k is lost and
+      // the next one comes one sinus cycle after the premature P wave, (1 + c) cycles after beat k - 1
+      T[k - 1] = c * rr + T[k];
+      T.splice(k, 1);
+      beat_types.splice(k, 1);
+      beat_types[k] = "blocked_pac";
+    }
+  }
+  return { T, beat_types };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { behavioral_state_profile, generate_behavioral_states } from "./behavior";
+import { mulberry32 } from "./rng";
+
+const fs = 100;
+
+describe("generate_behavioral_states", () => {
+  it("should tile the recording with consecutive states", () => {
+    const states = generate_behavioral_states(4 * 3600, fs, mulberry32(1));
+    expect(states[0].start).toBe(0);
+    expect(states[states.length - 1].end).toBe(4 * 3600 * fs);
+    for (let k = 1; k < states.length; k++) {
+      expect(states[k].start).toBe(states[k - 1].end);
+      expect(states[k].state).not.toBe(states[k - 1].state);
+    }
+    expect(new Set(states.map((g) => g.state)).size).toBeGreaterThan(1);
+  });
+
+  it("should honour the initial state and dwell times", () => {
+    const states = generate_behavioral_states(600, fs, mulberry32(2), { initial_state: "4F", mean_duration_min: { "4F": 2, "2F": 2 } });
+    expect(states[0].state).toBe("4F");
+    expect(states.length).toBeGreaterThan(1);
+  });
+
+  it("should couple movement with FHR variability", () => {
+    const quiet = behavioral_state_profile("1F");
+    const active = behavioral_state_profile("4F", { profiles: { "4F": { movement_intensity: 3 } } });
+    expect(active.movement_intensity).toBe(3);
+    expect(active.movement_rate_per_min).toBeGreaterThan(quiet.movement_rate_per_min);
+    expect(active.ltv_bpm).toBeGreaterThan(quiet.ltv_bpm);
+    expect(quiet.accel_rate_per_10min).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+// Fetal behavioral states for the fPCG simulator
+// From ~36 weeks the fetus cycles through the four Nijhuis states, and each one couples heart-rate
+// pattern and body movement: 1F quiet sleep (narrow variability, no accelerations, rare startles),
+// 2F active sleep (wider variability, accelerations with frequent movements), 3F quiet awake (no gross
+// movement, wide variability without accelerations) and 4F active awake (vigorous movement, large
+// accelerations fusing into a tachycardia). A semi-Markov chain picks the states and their dwell times.
+
+import type { RNG } from "./rng";
+
+export type FetalBehavioralState = "1F" | "2F" | "3F" | "4F";
+
+// Sample indices at fs, [start, end) and clipped to the recording, like UcEvent
+export type BehavioralStateInterval = { state: FetalBehavioralState; start: number; end: number };
+
+// What each state sets; these replace the run-wide fhr_* and movement_* settings while the state lasts
+export type BehavioralStateProfile = {
+  ltv_bpm: number;
+  stv_ms: number;
+  accel_rate_per_10min: number;
+  accel_amplitude_bpm: number;
+  baseline_shift_bpm: number; // 4F tachycardia
+  movement_rate_per_min: number;
+  movement_intensity: number;
+};
+
+export const BEHAVIORAL_STATE_PROFILES: Record<FetalBehavioralState, BehavioralStateProfile> = {
+  "1F": { ltv_bpm: 4, stv_ms: 1.5, accel_rate_per_10min: 0, accel_amplitude_bpm: 0, baseline_shift_bpm: -3, movement_rate_per_min: 0.5, movement_intensity: 0.6 },
+  "2F": { ltv_bpm: 12, stv_ms: 3, accel_rate_per_10min: 2.5, accel_amplitude_bpm: 15, baseline_shift_bpm: 0, movement_rate_per_min: 8, movement_intensity: 1.2 },
+  "3F": { ltv_bpm: 10, stv_ms: 2.5, accel_rate_per_10min: 0, accel_amplitude_bpm: 0, baseline_shift_bpm: 0, movement_rate_per_min: 0.5, movement_intensity: 0.5 },
+  "4F": { ltv_bpm: 20, stv_ms: 4, accel_rate_per_10min: 6, accel_amplitude_bpm: 25, baseline_shift_bpm: 15, movement_rate_per_min: 16, movement_intensity: 1.8 },
+};
+
+// Mean dwell time (min) and where each state goes next; active sleep dominates near term
+const MEAN_DURATION_MIN: Record<FetalBehavioralState, number> = { "1F": 20, "2F": 30, "3F": 4, "4F": 8 };
+const TRANSITIONS: Record<FetalBehavioralState, Array<[FetalBehavioralState, number]>> = {
+  "1F": [["2F", 1]],
+  "2F": [["1F", 0.6], ["4F", 0.3], ["3F", 0.1]],
+  "3F": [["4F", 0.6], ["2F", 0.4]],
+  "4F": [["2F", 0.7], ["3F", 0.3]],
+};
+// share of time spent in each state, used to draw the state the recording starts in
+const OCCUPANCY: Array<[FetalBehavioralState, number]> = [["1F", 0.32], ["2F", 0.54], ["3F", 0.04], ["4F", 0.1]];
+
+export type BehavioralStateOptions = {
+  initial_state?: FetalBehavioralState; // drawn from the typical state occupancy when unset
+  mean_duration_min?: Partial<Record<FetalBehavioralState, number>>;
+  profiles?: Partial<Record<FetalBehavioralState, Partial<BehavioralStateProfile>>>;
+};
+
+// Consecutive states covering [0, total_sec); dwell times are gamma-like around their mean
+export function generate_behavioral_states(total_sec: number, fs: number, rand: RNG, opts: BehavioralStateOptions = {}): BehavioralStateInterval[] {
+  const means = { ...MEAN_DURATION_MIN, ...opts.mean_duration_min };
+  const total_len = Math.max(1, Math.floor(total_sec * fs));
+  const out: BehavioralStateInterval[] = [];
+  let state = opts.initial_state ?? pick(OCCUPANCY, rand);
+  let dur = dwell_sec(means[state], rand);
+  // the recording starts at a random point of the first state
+  let t = -rand() * dur;
+  while (t < total_sec) {
+    const s = Math.max(0, Math.floor(t * fs)), e = Math.min(total_len, Math.floor((t + dur) * fs));
+    if (e > s) out.push({ state, start: s, end: e });
+    t += dur;
+    state = pick(TRANSITIONS[state], rand);
+    dur = dwell_sec(means[state], rand);
+  }
+  return out;
+}
+
+export function behavioral_state_profile(state: FetalBehavioralState, opts: BehavioralStateOptions = {}): BehavioralStateProfile {
+  return { ...BEHAVIORAL_STATE_PROFILES[state], ...opts.profiles?.[state] };
+}
+
+// sum of 4 exponentials (Erlang-4): dwell times cluster around the mean instead of being memoryless
+function dwell_sec(mean_min: number, rand: RNG) {
+  let s = 0;
+  for (let k = 0; k < 4; k++) s += -Math.log(1 - rand());
+  return Math.max(0.25, s / 4) * mean_min * 60;
+}
+
+function pick<T>(weights: Array<[T, number]>, rand: RNG): T {
+  const total = weights.reduce((s, [, w]) => s + w, 0);
+  let u = rand() * total;
+  for (const [v, w] of weights) {
+    if ((u -= w) < 0) return v;
+  }
+  return weights[weights.length - 1][0];
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { CTG_FS, build_ctg } from "./ctg";
+import { mulberry32 } from "./rng";
+
+describe("build_ctg", () => {
+  const fs = 1000;
+  const n = 10 * fs;
+  // beats every 0.5 s (120 bpm), then every 0.4 s (150 bpm) from t = 5 s
+  const onsets: number[] = [];
+  for (let s = 0; s < 5000; s += 500) onsets.push(s);
+  for (let s = 5000; s < n; s += 400) onsets.push(s);
+  const uc_env = new Array<number>(n).fill(0);
+  for (let i = 4000; i < 8000; i++) uc_env[i] = 1;
+
+  const ctg = build_ctg(onsets, uc_env, [{ start: 4000, end: 8000 }], fs, mulberry32(1), { noise_mmhg: 0 });
+
+  it("should sample both channels at 4 Hz over the recording", () => {
+    expect(ctg.fs).toBe(CTG_FS);
+    expect(ctg.t).toHaveLength(10 * CTG_FS);
+    expect(ctg.toco).toHaveLength(ctg.fhr.length);
+  });
+
+  it("should report signal loss before the second beat and then the last RR rate", () => {
+    expect(ctg.fhr[0]).toBe(0);
+    expect(ctg.fhr[3 * CTG_FS]).toBeCloseTo(120);
+    expect(ctg.fhr[8 * CTG_FS]).toBeCloseTo(150);
+  });
+
+  it("should fill the maternal channel only when maternal beats are given", () => {
+    expect(ctg.mhr).toBeUndefined();
+    const maternal: number[] = [];
+    for (let s = 0; s < n; s += 750) maternal.push(s);
+    const both = build_ctg(onsets, uc_env, [], fs, mulberry32(1), {}, null, maternal);
+    expect(both.mhr).toHaveLength(both.fhr.length);
+    expect(both.mhr![8 * CTG_FS]).toBeCloseTo(80);
+    expect(both.fhr[8 * CTG_FS]).toBeCloseTo(150);
+  });
+
+  it("should raise the toco channel above tone during the contraction", () => {
+    expect(ctg.toco[CTG_FS]).toBeCloseTo(12);
+    expect(ctg.toco[6 * CTG_FS]).toBeGreaterThan(12 + 0.8 * 45 - 1e-9);
+  });
+});
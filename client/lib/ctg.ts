@@ -0,0 +1,74 @@
+// Cardiotocography (CTG) companion channels for the fPCG simulator
+// A monitor-style 4 Hz FHR trace taken from the realized beat times, and a tocodynamometer pressure
+// curve (mmHg) taken from the UC envelope; both share the time axis of the acoustic recording.
+
+import { FHR_CURVE_FS } from "./fhr";
+import { gaussian, type RNG } from "./rng";
+
+export const CTG_FS = FHR_CURVE_FS;
+
+export type CtgTrace = {
+  fs: number;
+  t: number[]; // seconds, aligned with the acoustic t
+  fhr: number[]; // bpm; 0 until two beats have been seen (signal loss, as a monitor shows it)
+  fhr2?: number[]; // second FHR channel of a twin recording, same convention
+  mhr?: number[]; // maternal heart rate channel, same convention
+  toco: number[]; // mmHg
+};
+
+export type TocoOptions = {
+  baseline_mmhg?: number; // resting uterine tone
+  amplitude_mmhg?: number; // contraction peak above tone
+  noise_mmhg?: number;
+};
+
+// beat_onsets: sample index of each fetal beat; uc_events bound the per-contraction intensity jitter.
+// twin_beat_onsets fills fhr2, as a dual-channel twin monitor would; maternal_beat_onsets fills mhr,
+// the reference a monitor checks the FHR against to catch maternal-rate pickup.
+export function build_ctg(
+  beat_onsets: number[],
+  uc_env: number[],
+  uc_events: Array<{ start: number; end: number }>,
+  fs: number,
+  rand: RNG,
+  opts: TocoOptions = {},
+  twin_beat_onsets: number[] | null = null,
+  maternal_beat_onsets: number[] | null = null,
+): CtgTrace {
+  const { baseline_mmhg = 12, amplitude_mmhg = 45, noise_mmhg = 1.0 } = opts;
+  const n = Math.max(1, Math.floor((uc_env.length / fs) * CTG_FS));
+  const t = new Array<number>(n);
+  for (let i = 0; i < n; i++) t[i] = i / CTG_FS;
+
+  const fhr = fhr_ticks(beat_onsets, t, fs);
+
+  // toco: tone + per-contraction scaled envelope + slow sensor noise
+  const intensity = uc_events.map(() => 0.8 + 0.4 * rand());
+  const toco = new Array<number>(n);
+  const a = Math.exp(-1 / (2 * CTG_FS)); // ~0.5 s smoothing of the noise
+  let drift = 0;
+  let e = 0;
+  for (let i = 0; i < n; i++) {
+    const s = Math.min(uc_env.length - 1, Math.floor(t[i] * fs));
+    while (e < uc_events.length - 1 && uc_events[e].end <= s) e++;
+    const gain = uc_events.length && s >= uc_events[e].start && s < uc_events[e].end ? intensity[e] : 1;
+    drift = a * drift + Math.sqrt(1 - a * a) * noise_mmhg * gaussian(rand);
+    toco[i] = baseline_mmhg + amplitude_mmhg * gain * uc_env[s] + drift;
+  }
+  const out: CtgTrace = { fs: CTG_FS, t, fhr, toco };
+  if (twin_beat_onsets) out.fhr2 = fhr_ticks(twin_beat_onsets, t, fs);
+  if (maternal_beat_onsets) out.mhr = fhr_ticks(maternal_beat_onsets, t, fs);
+  return out;
+}
+
+// Each tick holds the rate of the last completed RR interval
+function fhr_ticks(beat_onsets: number[], t: number[], fs: number) {
+  const fhr = new Array<number>(t.length).fill(0);
+  let k = 0;
+  for (let i = 0; i < t.length; i++) {
+    const s = t[i] * fs;
+    while (k + 1 < beat_onsets.length && beat_onsets[k + 1] <= s) k++;
+    if (k >= 1 && beat_onsets[k] <= s) fhr[i] = (60 * fs) / (beat_onsets[k] - beat_onsets[k - 1]);
+  }
+  return fhr;
+}
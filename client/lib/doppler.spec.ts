@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { render_doppler } from "./doppler";
+import { mulberry32 } from "./rng";
+
+const s1 = [0, 1, 2, 3].map((k) => 0.1 + 0.43 * k);
+const s2 = s1.map((v) => v + 0.15);
+const energy = (y: number[]) => y.reduce((s, v) => s + v * v, 0);
+
+describe("render_doppler", () => {
+  it("should label the four valve events of every beat in cardiac order", () => {
+    const { events, y, t, fs } = render_doppler(s1, s2, 2, mulberry32(1));
+    expect(y).toHaveLength(2 * fs);
+    expect(t[fs]).toBeCloseTo(1, 9);
+    expect(events).toHaveLength(4 * s1.length);
+    expect(events.slice(0, 4).map((e) => e.type)).toEqual(["av_close", "sl_open", "sl_close", "av_open"]);
+    expect(events[0].index).toBe(Math.floor(s1[0] * fs));
+  });
+
+  it("should lose signal as the beam turns perpendicular to the motion", () => {
+    const opts = { snr_db: 60 };
+    const along = render_doppler(s1, s2, 2, mulberry32(2), { ...opts, angle_deg: 0 });
+    const across = render_doppler(s1, s2, 2, mulberry32(2), { ...opts, angle_deg: 88 });
+    expect(energy(across.y)).toBeLessThan(0.2 * energy(along.y));
+  });
+
+  it("should attenuate deeper hearts", () => {
+    const shallow = render_doppler(s1, s2, 2, mulberry32(3), { depth_cm: 3 });
+    const deep = render_doppler(s1, s2, 2, mulberry32(3), { depth_cm: 8 });
+    expect(deep.gain).toBeLessThan(shallow.gain);
+    expect(energy(deep.y)).toBeLessThan(energy(shallow.y));
+  });
+});
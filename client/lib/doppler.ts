@@ -0,0 +1,114 @@
+// Handheld fetal Doppler audio for the fPCG simulator
+// Continuous-wave Doppler renders tissue and blood velocity as audio at f_d = 2 f0 v cos(angle) / c.
+// Wall motion, valve motion and ejection flow follow the same beats the fPCG places, so the Doppler and
+// PCG outputs of one simulation share one FHR ground truth.
+
+import { simple_bandpass } from "./dsp";
+import { gaussian, type RNG } from "./rng";
+
+export type DopplerOptions = {
+  fs?: number; // audio rate; must cover the largest Doppler shift
+  carrier_mhz?: number;
+  angle_deg?: number; // between the beam and the heart's motion
+  depth_cm?: number; // probe to fetal heart; defaults to the fetal path r1 + r2
+  attenuation_db_cm_mhz?: number; // soft tissue, one way
+  wall_filter_hz?: number; // high-pass that removes slow tissue clutter, as on handheld units
+  snr_db?: number;
+};
+
+export type DopplerEventType = "av_close" | "sl_open" | "sl_close" | "av_open";
+// index: sample at the Doppler fs; beat: index into the fetal beats (meta.T)
+export type DopplerEvent = { type: DopplerEventType; beat: number; index: number };
+
+export type DopplerTrace = {
+  fs: number;
+  t: number[]; // seconds, aligned with the acoustic t
+  y: number[];
+  events: DopplerEvent[];
+  carrier_mhz: number;
+  angle_deg: number;
+  depth_cm: number;
+  gain: number; // round-trip depth attenuation applied to the echoes
+};
+
+const C_TISSUE = 1540; // m/s
+const ISOVOLUMIC_SEC = 0.03; // S1 to semilunar opening
+const RELAXATION_SEC = 0.04; // S2 to AV opening
+const VALVE_SEC = 0.012;
+
+// A moving scatterer group: peak velocity (m/s) and echo strength, over [t0, t1) with a half-sine profile
+type Motion = { t0: number; t1: number; v: number; amp: number; spread: number };
+
+// s1_sec/s2_sec: source time of each fetal S1/S2 (AV and semilunar closure)
+export function render_doppler(s1_sec: number[], s2_sec: number[], duration_sec: number, rand: RNG, opts: DopplerOptions = {}): DopplerTrace {
+  const {
+    fs = 4000,
+    carrier_mhz = 2.0,
+    angle_deg = 30,
+    depth_cm = 4,
+    attenuation_db_cm_mhz = 0.5,
+    wall_filter_hz = 100,
+    snr_db = 20,
+  } = opts;
+  const n = Math.max(1, Math.floor(duration_sec * fs));
+  const t = new Array<number>(n);
+  for (let i = 0; i < n; i++) t[i] = i / fs;
+
+  const motions: Motion[] = [];
+  const events: DopplerEvent[] = [];
+  const event = (type: DopplerEventType, beat: number, sec: number) => {
+    const index = Math.floor(sec * fs);
+    if (index >= 0 && index < n) events.push({ type, beat, index });
+  };
+  for (let k = 0; k < s1_sec.length; k++) {
+    const s1 = s1_sec[k], s2 = s2_sec[k];
+    const next = k + 1 < s1_sec.length ? s1_sec[k + 1] : s1 + 2 * (s2 - s1) + 0.1;
+    const j = 1 + 0.1 * gaussian(rand);
+    // ventricular wall: systolic contraction, then diastolic filling
+    motions.push({ t0: s1, t1: s2, v: 0.05 * j, amp: 1, spread: 0.3 });
+    motions.push({ t0: s2 + RELAXATION_SEC, t1: Math.max(s2 + RELAXATION_SEC + 0.02, next - 0.01), v: 0.04 * j, amp: 0.8, spread: 0.3 });
+    // ejection flow through the outflow tract
+    motions.push({ t0: s1 + ISOVOLUMIC_SEC, t1: s2, v: 0.5 * j, amp: 0.25, spread: 0.4 });
+    // valve leaflets: brief fast movements that give the Doppler its clicks
+    for (const [type, sec] of [["av_close", s1], ["sl_open", s1 + ISOVOLUMIC_SEC], ["sl_close", s2], ["av_open", s2 + RELAXATION_SEC]] as Array<[DopplerEventType, number]>) {
+      motions.push({ t0: sec, t1: sec + VALVE_SEC, v: 0.35 * (1 + 0.1 * gaussian(rand)), amp: 0.6, spread: 0.15 });
+      event(type, k, sec);
+    }
+  }
+
+  // each motion is a few scatterers with spread velocities and random phases (spectral broadening)
+  const cos_a = Math.cos((angle_deg * Math.PI) / 180);
+  const shift_per_mps = (2 * carrier_mhz * 1e6 * cos_a) / C_TISSUE;
+  const y = new Array<number>(n).fill(0);
+  const J = 4;
+  for (const m of motions) {
+    const i0 = Math.max(0, Math.floor(m.t0 * fs));
+    const i1 = Math.min(n, Math.ceil(m.t1 * fs));
+    const L = m.t1 - m.t0;
+    if (i1 <= i0 || L <= 0) continue;
+    for (let s = 0; s < J; s++) {
+      const scale = 1 + m.spread * (2 * rand() - 1);
+      let ph = 2 * Math.PI * rand();
+      for (let i = i0; i < i1; i++) {
+        const prof = Math.sin((Math.PI * (i / fs - m.t0)) / L);
+        const f = Math.min(0.45 * fs, shift_per_mps * m.v * scale * prof);
+        ph += (2 * Math.PI * f) / fs;
+        y[i] += (m.amp * prof * Math.cos(ph)) / Math.sqrt(J);
+      }
+    }
+  }
+
+  // depth attenuation (round trip), wall filter, receiver noise
+  const gain = Math.pow(10, (-attenuation_db_cm_mhz * carrier_mhz * 2 * depth_cm) / 20);
+  const filtered = simple_bandpass(y, wall_filter_hz, fs / 2, fs);
+  let ss = 0;
+  for (let i = 0; i < n; i++) {
+    filtered[i] *= gain;
+    ss += filtered[i] * filtered[i];
+  }
+  const noise_r = Math.sqrt(ss / n) / Math.pow(10, snr_db / 20);
+  for (let i = 0; i < n; i++) filtered[i] += noise_r * gaussian(rand);
+
+  events.sort((a, b) => a.index - b.index);
+  return { fs, t, y: filtered, events, carrier_mhz, angle_deg, depth_cm, gain };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { array_max, convolve, fft, max_abs, onepole_lowpass, simple_bandpass } from "./dsp";
+import { gaussian, mulberry32 } from "./rng";
+
+function noise(n: number, seed: number) {
+  const rand = mulberry32(seed);
+  return Array.from({ length: n }, () => gaussian(rand));
+}
+
+// textbook O(n·m) reference
+function direct(x: number[], h: number[]) {
+  const y = new Array<number>(x.length + h.length - 1).fill(0);
+  for (let i = 0; i < x.length; i++) for (let j = 0; j < h.length; j++) y[i + j] += x[i] * h[j];
+  return y;
+}
+
+describe("fft", () => {
+  it("should round-trip through the inverse transform", () => {
+    const x = noise(256, 1);
+    const re = Float64Array.from(x), im = new Float64Array(256);
+    fft(re, im);
+    fft(re, im, true);
+    for (let i = 0; i < 256; i++) {
+      expect(re[i]).toBeCloseTo(x[i], 10);
+      expect(im[i]).toBeCloseTo(0, 10);
+    }
+  });
+});
+
+describe("convolve", () => {
+  it("should match direct convolution on both the short and the overlap-add path", () => {
+    const x = noise(5000, 2);
+    for (const m of [7, 64, 65, 700]) {
+      const h = noise(m, 3 + m);
+      const ref = direct(x, h);
+      const y = convolve(x, h);
+      expect(y).toHaveLength(ref.length);
+      let err = 0;
+      for (let i = 0; i < ref.length; i++) err = Math.max(err, Math.abs(y[i] - ref[i]));
+      expect(err).toBeLessThan(1e-9);
+    }
+  });
+
+  it("should be symmetric in its inputs and truncate to out_len", () => {
+    const x = noise(300, 4), h = noise(2000, 5);
+    const a = convolve(x, h, 1000), b = convolve(h, x, 1000);
+    expect(a).toHaveLength(1000);
+    for (let i = 0; i < 1000; i++) expect(a[i]).toBeCloseTo(b[i], 9);
+  });
+});
+
+describe("filters", () => {
+  it("should filter in place with the same result", () => {
+    const x = noise(2000, 6);
+    const y = x.slice();
+    simple_bandpass(y, 15, 200, 1000, y);
+    expect(y).toEqual(simple_bandpass(x, 15, 200, 1000));
+    const z = x.slice();
+    onepole_lowpass(z, 20, 1000, z);
+    expect(z).toEqual(onepole_lowpass(x, 20, 1000));
+  });
+});
+
+describe("reductions", () => {
+  it("should handle arrays too long to spread into Math.max", () => {
+    const x = new Array<number>(1_000_000).fill(0.5);
+    x[777_777] = -3;
+    expect(max_abs(x)).toBe(3);
+    expect(array_max(x)).toBe(0.5);
+    expect(array_max([], 1e-9)).toBe(1e-9);
+  });
+});
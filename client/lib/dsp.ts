@@ -0,0 +1,171 @@
+// Signal-processing helpers shared by the generators
+
+// 1st-order filters (6 dB/oct); cheap enough for long recordings. `out` may be x itself to filter in place.
+export function onepole_lowpass(x: number[], fc: number, fs: number, out: number[] = new Array<number>(x.length)) {
+  if (fc <= 0) {
+    for (let i = 0; i < x.length; i++) out[i] = x[i];
+    return out;
+  }
+  const a = Math.exp((-2 * Math.PI * fc) / fs);
+  let y = 0;
+  if (x.length) out[0] = 0;
+  for (let i = 1; i < x.length; i++) {
+    y = a * y + (1 - a) * x[i];
+    out[i] = y;
+  }
+  return out;
+}
+export function onepole_highpass(x: number[], fc: number, fs: number, out: number[] = new Array<number>(x.length)) {
+  if (fc <= 0) return onepole_lowpass(x, 0, fs, out);
+  const a = Math.exp((-2 * Math.PI * fc) / fs);
+  let low = 0;
+  if (x.length) out[0] = x[0];
+  for (let i = 1; i < x.length; i++) {
+    low = a * low + (1 - a) * x[i];
+    out[i] = x[i] - low;
+  }
+  return out;
+}
+export function simple_bandpass(x: number[], f_lo: number, f_hi: number, fs: number, out?: number[]) {
+  let y = x;
+  if (!(f_hi == null || f_hi >= fs / 2)) y = onepole_lowpass(y, f_hi, fs, out);
+  if (!(f_lo == null || f_lo <= 0)) y = onepole_highpass(y, f_lo, fs, y === x ? out : y);
+  return y;
+}
+
+// -----------------------------
+// FFT and convolution
+// -----------------------------
+type FftPlan = { cos: Float64Array; sin: Float64Array; rev: Uint32Array };
+const fft_plans = new Map<number, FftPlan>();
+
+function fft_plan(N: number): FftPlan {
+  let plan = fft_plans.get(N);
+  if (plan) return plan;
+  const cos = new Float64Array(N >> 1);
+  const sin = new Float64Array(N >> 1);
+  for (let k = 0; k < N >> 1; k++) {
+    cos[k] = Math.cos((2 * Math.PI * k) / N);
+    sin[k] = Math.sin((2 * Math.PI * k) / N);
+  }
+  const bits = Math.round(Math.log2(N));
+  const rev = new Uint32Array(N);
+  for (let i = 0; i < N; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    rev[i] = r;
+  }
+  plan = { cos, sin, rev };
+  fft_plans.set(N, plan);
+  return plan;
+}
+
+export function next_pow2(n: number) {
+  let N = 1;
+  while (N < n) N <<= 1;
+  return N;
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two. The inverse is scaled by 1/N.
+export function fft(re: Float64Array, im: Float64Array, inverse = false) {
+  const N = re.length;
+  const { cos, sin, rev } = fft_plan(N);
+  for (let i = 0; i < N; i++) {
+    const j = rev[i];
+    if (j > i) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  const sgn = inverse ? 1 : -1;
+  for (let size = 2; size <= N; size <<= 1) {
+    const half = size >> 1;
+    const step = N / size;
+    for (let i = 0; i < N; i += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step], wi = sgn * sin[k * step];
+        const a = i + k, b = a + half;
+        const tr = wr * re[b] - wi * im[b];
+        const ti = wr * im[b] + wi * re[b];
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+      }
+    }
+  }
+  if (inverse) for (let i = 0; i < N; i++) { re[i] /= N; im[i] /= N; }
+}
+
+// Kernels shorter than this are cheaper in direct form
+const DIRECT_MAX_TAPS = 64;
+
+// Linear convolution of real signals, truncated to out_len samples (default: full length n + m - 1)
+export function convolve(x: ArrayLike<number>, h: ArrayLike<number>, out_len = x.length + h.length - 1): number[] {
+  const short = h.length <= x.length ? h : x;
+  const long = short === h ? x : h;
+  if (short.length <= DIRECT_MAX_TAPS) return convolve_direct(long, short, out_len);
+  return convolve_ola(long, short, out_len);
+}
+
+function convolve_direct(x: ArrayLike<number>, h: ArrayLike<number>, out_len: number) {
+  const n = x.length, m = h.length;
+  const out = new Array<number>(out_len).fill(0);
+  for (let i = 0; i < n && i < out_len; i++) {
+    const xi = x[i];
+    if (xi === 0) continue;
+    const jmax = Math.min(m, out_len - i);
+    for (let j = 0; j < jmax; j++) out[i + j] += xi * h[j];
+  }
+  return out;
+}
+
+// Overlap-add; since both inputs are real, two blocks share one complex FFT (real and imaginary parts)
+function convolve_ola(x: ArrayLike<number>, h: ArrayLike<number>, out_len: number) {
+  const m = h.length;
+  const N = next_pow2(4 * m);
+  const L = N - m + 1;
+  const Hr = new Float64Array(N), Hi = new Float64Array(N);
+  for (let j = 0; j < m; j++) Hr[j] = h[j];
+  fft(Hr, Hi);
+  const out = new Array<number>(out_len).fill(0);
+  const re = new Float64Array(N), im = new Float64Array(N);
+  const n = Math.min(x.length, out_len);
+  for (let start = 0; start < n; start += 2 * L) {
+    re.fill(0); im.fill(0);
+    for (let j = 0; j < L && start + j < n; j++) re[j] = x[start + j];
+    for (let j = 0; j < L && start + L + j < n; j++) im[j] = x[start + L + j];
+    fft(re, im);
+    for (let k = 0; k < N; k++) {
+      const a = re[k], b = im[k];
+      re[k] = a * Hr[k] - b * Hi[k];
+      im[k] = a * Hi[k] + b * Hr[k];
+    }
+    fft(re, im, true);
+    for (let j = 0; j < N && start + j < out_len; j++) out[start + j] += re[j];
+    for (let j = 0; j < N && start + L + j < out_len; j++) out[start + L + j] += im[j];
+  }
+  return out;
+}
+
+// -----------------------------
+// Reductions (single pass, no argument spreading: safe on hour-long arrays)
+// -----------------------------
+export function rms(x: ArrayLike<number>) {
+  let ss = 0;
+  for (let i = 0; i < x.length; i++) ss += x[i] * x[i];
+  return Math.sqrt(ss / Math.max(1, x.length));
+}
+
+export function array_max(x: ArrayLike<number>, floor = -Infinity) {
+  let m = floor;
+  for (let i = 0; i < x.length; i++) if (x[i] > m) m = x[i];
+  return m;
+}
+
+export function max_abs(x: ArrayLike<number>, floor = 0) {
+  let m = floor;
+  for (let i = 0; i < x.length; i++) {
+    const a = Math.abs(x[i]);
+    if (a > m) m = a;
+  }
+  return m;
+}
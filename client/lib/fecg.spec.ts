@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { render_abdominal_ecg } from "./fecg";
+import { mulberry32 } from "./rng";
+
+const fs = 1000;
+const n = 10 * fs;
+const fetal_s1 = Array.from({ length: 23 }, (_, k) => 100 + 430 * k);
+const maternal_s1 = Array.from({ length: 13 }, (_, k) => 300 + 750 * k);
+const quiet = { baseline_wander_mv: 0, powerline_mv: 0, noise_mv: 0, emd_jitter_sec: 0 };
+
+describe("render_abdominal_ecg", () => {
+  it("should place each R-peak one electromechanical delay before its S1", () => {
+    const ecg = render_abdominal_ecg(n, fs, fetal_s1, maternal_s1, mulberry32(1), { ...quiet, fetal_emd_sec: 0.07, maternal_emd_sec: 0.05 });
+    expect(ecg.fetal_r).toEqual(fetal_s1.map((s) => s - 70));
+    expect(ecg.maternal_r).toEqual(maternal_s1.map((s) => s - 50));
+    expect(ecg.fetal_emd_sec.every((d) => Math.abs(d - 0.07) < 1e-12)).toBe(true);
+  });
+
+  it("should mix the clean stems into the abdominal lead", () => {
+    const ecg = render_abdominal_ecg(n, fs, fetal_s1, maternal_s1, mulberry32(2), quiet);
+    for (let i = 0; i < n; i += 97) expect(ecg.y[i]).toBeCloseTo(ecg.fecg[i] + ecg.mecg[i], 12);
+  });
+
+  it("should peak at the R-peaks with a dominant maternal QRS", () => {
+    const ecg = render_abdominal_ecg(n, fs, fetal_s1, maternal_s1, mulberry32(3), quiet);
+    const r = ecg.fetal_r[5];
+    expect(ecg.fecg[r]).toBeGreaterThan(ecg.fecg[r - 10]);
+    expect(ecg.fecg[r]).toBeGreaterThan(ecg.fecg[r + 10]);
+    const m = ecg.maternal_r[3];
+    expect(ecg.mecg[m]).toBeGreaterThan(4 * ecg.fecg[r]);
+  });
+
+  it("should drop R-peaks that would fall before the recording", () => {
+    const ecg = render_abdominal_ecg(n, fs, [20, ...fetal_s1], maternal_s1, mulberry32(4), quiet);
+    expect(ecg.fetal_r).toHaveLength(fetal_s1.length);
+    expect(ecg.fetal_emd_sec).toHaveLength(fetal_s1.length);
+  });
+});
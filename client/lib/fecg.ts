@@ -0,0 +1,112 @@
+// Abdominal ECG companion channel for the fPCG simulator
+// Maternal and fetal ECG as picked up on the abdomen: the maternal QRS dominates and the fetal QRS is a
+// few tens of microvolts. R-peaks are placed one electromechanical delay before each S1 the fPCG renders,
+// so the electrical and acoustic beats share ground truth. Same rate and sample indices as the fPCG.
+
+import { gaussian, type RNG } from "./rng";
+
+export type FecgOptions = {
+  fetal_emd_sec?: number; // fetal R-peak to S1 (electromechanical delay)
+  maternal_emd_sec?: number;
+  emd_jitter_sec?: number; // beat-to-beat std of both delays
+  fecg_amplitude_mv?: number; // fetal R amplitude at the electrode
+  mecg_amplitude_mv?: number;
+  baseline_wander_mv?: number; // respiration-driven baseline drift
+  powerline_mv?: number;
+  powerline_hz?: number;
+  noise_mv?: number; // EMG / electrode noise
+};
+
+export type FecgTrace = {
+  fs: number;
+  y: number[]; // abdominal mixture (mV)
+  fecg: number[]; // clean fetal stem
+  mecg: number[]; // clean maternal stem
+  fetal_r: number[]; // R-peak sample indices
+  maternal_r: number[];
+  fetal_emd_sec: number[]; // realized R-to-S1 delay of each fetal beat, aligned with fetal_r
+};
+
+// [offset from R (s, at a 1 s RR), width (s), amplitude relative to R] for P, Q, R, S, T
+type Wave = [number, number, number];
+const ADULT_WAVES: Wave[] = [
+  [-0.2, 0.025, 0.12],
+  [-0.025, 0.008, -0.15],
+  [0, 0.01, 1],
+  [0.025, 0.008, -0.25],
+  [0.3, 0.06, 0.3],
+];
+// fetal complexes are shorter overall (QRS ~50 ms)
+const FETAL_TIME_SCALE = 0.55;
+
+// fetal_s1 / maternal_s1: S1 onset of each beat (samples)
+export function render_abdominal_ecg(
+  n: number,
+  fs: number,
+  fetal_s1: number[],
+  maternal_s1: number[],
+  rand: RNG,
+  opts: FecgOptions = {},
+): FecgTrace {
+  const {
+    fetal_emd_sec = 0.07,
+    maternal_emd_sec = 0.05,
+    emd_jitter_sec = 0.004,
+    fecg_amplitude_mv = 0.04,
+    mecg_amplitude_mv = 0.3,
+    baseline_wander_mv = 0.05,
+    powerline_mv = 0.01,
+    powerline_hz = 50,
+    noise_mv = 0.008,
+  } = opts;
+
+  const fetal_emd_sec_k = fetal_s1.map(() => Math.max(0.01, fetal_emd_sec + emd_jitter_sec * gaussian(rand)));
+  const fetal_r = fetal_s1.map((s1, k) => s1 - Math.round(fetal_emd_sec_k[k] * fs));
+  const maternal_r = maternal_s1.map((s1) => s1 - Math.round(Math.max(0.01, maternal_emd_sec + emd_jitter_sec * gaussian(rand)) * fs));
+
+  const fecg = render_complexes(n, fs, fetal_r, fecg_amplitude_mv, FETAL_TIME_SCALE);
+  const mecg = render_complexes(n, fs, maternal_r, mecg_amplitude_mv, 1);
+
+  // baseline wander near the breathing rate, mains pickup, broadband noise
+  const f_bw = 0.2 + 0.1 * rand();
+  const ph_bw = 2 * Math.PI * rand();
+  const ph_pl = 2 * Math.PI * rand();
+  const y = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    const t = i / fs;
+    y[i] = fecg[i] + mecg[i]
+      + baseline_wander_mv * Math.sin(2 * Math.PI * f_bw * t + ph_bw)
+      + powerline_mv * Math.sin(2 * Math.PI * powerline_hz * t + ph_pl)
+      + noise_mv * gaussian(rand);
+  }
+
+  // R-peaks before the recording started are dropped with their delays
+  const keep = fetal_r.map((r) => r >= 0 && r < n);
+  return {
+    fs, y, fecg, mecg,
+    fetal_r: fetal_r.filter((_, k) => keep[k]),
+    maternal_r: maternal_r.filter((r) => r >= 0 && r < n),
+    fetal_emd_sec: fetal_emd_sec_k.filter((_, k) => keep[k]),
+  };
+}
+
+// Sum-of-Gaussians PQRST per R-peak; P and T offsets follow the RR (Bazett-style sqrt scaling)
+function render_complexes(n: number, fs: number, r_peaks: number[], amplitude: number, time_scale: number) {
+  const out = new Array<number>(n).fill(0);
+  for (let k = 0; k < r_peaks.length; k++) {
+    const rr = (k + 1 < r_peaks.length ? r_peaks[k + 1] - r_peaks[k] : k > 0 ? r_peaks[k] - r_peaks[k - 1] : fs) / fs;
+    const stretch = Math.sqrt(Math.max(0.1, rr) / time_scale);
+    for (const [offset, width, amp] of ADULT_WAVES) {
+      const off = offset * time_scale * (Math.abs(offset) > 0.1 ? stretch : 1);
+      const w = width * time_scale;
+      const c = r_peaks[k] + off * fs;
+      const i0 = Math.max(0, Math.floor(c - 4 * w * fs));
+      const i1 = Math.min(n, Math.ceil(c + 4 * w * fs));
+      for (let i = i0; i < i1; i++) {
+        const z = (i - c) / (w * fs);
+        out[i] += amplitude * amp * Math.exp(-0.5 * z * z);
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { FHR_CURVE_FS, fhr_curve_from_rr, generate_fhr_process } from "./fhr";
+import { mulberry32 } from "./rng";
+
+describe("generate_fhr_process", () => {
+  it("should produce the requested number of beats around the baseline", () => {
+    const { T, curve } = generate_fhr_process(1000, mulberry32(1), { n_beats: 400 }, { baseline: 140, accel_rate_per_10min: 0 });
+    expect(T).toHaveLength(400);
+    const mean_bpm = T.reduce((s, rr) => s + 60 / rr, 0) / T.length;
+    expect(mean_bpm).toBeGreaterThan(125);
+    expect(mean_bpm).toBeLessThan(155);
+    expect(curve).toHaveLength(Math.ceil(T.reduce((s, v) => s + v, 0) * FHR_CURVE_FS) + 1);
+  });
+
+  it("should cover duration_sec when given instead of a beat count", () => {
+    const { T } = generate_fhr_process(1000, mulberry32(2), { duration_sec: 120 });
+    const total = T.reduce((s, v) => s + v, 0);
+    expect(total).toBeGreaterThanOrEqual(120);
+    expect(total).toBeLessThan(121);
+  });
+
+  it("should label accelerations that raise the curve", () => {
+    const { curve, accelerations } = generate_fhr_process(1000, mulberry32(3), { duration_sec: 600 }, { accel_rate_per_10min: 6, baseline_wander_bpm: 0, ltv_bpm: 0 });
+    expect(accelerations.length).toBeGreaterThan(0);
+    const { peak, amplitude_bpm } = accelerations[0];
+    expect(curve[Math.floor((peak / 1000) * FHR_CURVE_FS)]).toBeGreaterThan(140 + 0.5 * amplitude_bpm);
+  });
+
+  it("should oscillate at the sinusoidal frequency without accelerations", () => {
+    const { curve, accelerations } = generate_fhr_process(1000, mulberry32(4), { duration_sec: 300 }, { pattern: "sinusoidal", baseline_wander_bpm: 0, sinusoidal_amplitude_bpm: 10 });
+    expect(accelerations).toHaveLength(0);
+    expect(Math.max(...curve) - Math.min(...curve)).toBeCloseTo(10, 0);
+  });
+});
+
+describe("fhr_curve_from_rr", () => {
+  it("should hold 60 / RR over each beat", () => {
+    expect(fhr_curve_from_rr([0.5, 0.5, 1.0])).toEqual([120, 120, 120, 120, 60, 60, 60, 60]);
+  });
+});
+
+describe("UC-coupled decelerations", () => {
+  const fs = 1000;
+  const uc_events = [{ start: 60 * fs, end: 120 * fs, peak: 90 * fs }];
+  const flat = { baseline_wander_bpm: 0, ltv_bpm: 0, accel_rate_per_10min: 0 };
+  const at = (curve: number[], sample: number) => curve[Math.floor((sample / fs) * FHR_CURVE_FS)];
+
+  it("should mirror the contraction for early decels", () => {
+    const { curve, decelerations } = generate_fhr_process(fs, mulberry32(5), { duration_sec: 200 }, { ...flat, decelerations: { mode: "early", uc_events } });
+    expect(decelerations).toHaveLength(1);
+    const d = decelerations[0];
+    expect(d).toMatchObject({ type: "early", start: uc_events[0].start, nadir: uc_events[0].peak, uc_index: 0 });
+    expect(at(curve, d.nadir)).toBeCloseTo(140 - d.depth_bpm, 0);
+  });
+
+  it("should put the nadir of late decels after the UC peak", () => {
+    const { decelerations } = generate_fhr_process(fs, mulberry32(6), { duration_sec: 200 }, { ...flat, decelerations: { mode: "late", uc_events, lag_sec: 25 } });
+    expect(decelerations[0].nadir - uc_events[0].peak).toBeGreaterThanOrEqual(20 * fs);
+  });
+
+  it("should reach the nadir of variable decels within 30 s", () => {
+    const { decelerations } = generate_fhr_process(fs, mulberry32(7), { duration_sec: 200 }, { ...flat, decelerations: { mode: "variable", uc_events } });
+    const d = decelerations[0];
+    expect(d.nadir - d.start).toBeLessThan(30 * fs);
+    expect(d.depth_bpm).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should keep prolonged decels below baseline for at least 2 minutes", () => {
+    const { decelerations } = generate_fhr_process(fs, mulberry32(8), { duration_sec: 600 }, { ...flat, decelerations: { mode: "prolonged", uc_events } });
+    expect(decelerations[0].end - decelerations[0].start).toBeGreaterThanOrEqual(120 * fs);
+  });
+});
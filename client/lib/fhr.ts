@@ -0,0 +1,275 @@
+// Fetal heart rate (FHR) process for the fPCG simulator
+// Builds an instantaneous FHR curve (wandering baseline + long-term variability + accelerations, or a
+// sinusoidal pattern, minus UC-coupled decelerations) on a coarse grid, then integrates beat-to-beat RR
+// intervals with short-term variability.
+
+import { gaussian, type RNG } from "./rng";
+
+export const FHR_CURVE_FS = 4; // Hz, the usual CTG trace rate
+
+export type FhrPattern = "normal" | "sinusoidal";
+// Sample indices at the audio rate, like UcEvent
+export type FhrAcceleration = { start: number; end: number; peak: number; amplitude_bpm: number };
+
+export type DecelType = "early" | "late" | "variable" | "prolonged";
+// nadir is the middle of the lowest segment; uc_index points into the contraction list that triggered it
+export type FhrDeceleration = { type: DecelType; start: number; end: number; nadir: number; depth_bpm: number; uc_index: number };
+export type DecelOptions = {
+  mode: DecelType;
+  // sample indices at fs; intensity (envelope peak, 1 when unset) scales the depth
+  uc_events: Array<{ start: number; end: number; peak: number; intensity?: number }>;
+  modes?: Array<DecelType | "none">; // per contraction, overriding mode (labor stages)
+  depth_bpm?: number; // defaults per mode
+  lag_sec?: number; // late: delay of the decel behind its contraction
+  probability?: number; // chance that a contraction produces a decel
+};
+
+// Settings that hold over [start, end) (sample indices at fs), e.g. one fetal behavioral state (see
+// behavior.ts). Inside a segment they replace the matching FhrOptions and shift the baseline; outside
+// any segment the run-wide options apply.
+export type FhrSegment = {
+  start: number;
+  end: number;
+  ltv_bpm: number;
+  stv_ms: number;
+  accel_rate_per_10min: number;
+  accel_amplitude_bpm: number;
+  baseline_shift_bpm: number;
+};
+
+export type FhrOptions = {
+  baseline?: number; // bpm
+  pattern?: FhrPattern;
+  baseline_wander_bpm?: number; // std of the slow baseline drift
+  baseline_wander_tau_sec?: number;
+  ltv_bpm?: number; // long-term variability, peak-to-trough amplitude
+  ltv_cycles_per_min?: [number, number];
+  stv_ms?: number; // std of beat-to-beat RR perturbation
+  accel_rate_per_10min?: number;
+  accel_amplitude_bpm?: number;
+  accel_duration_range?: [number, number]; // seconds
+  sinusoidal_amplitude_bpm?: number; // peak-to-trough
+  sinusoidal_cycles_per_min?: number;
+  decelerations?: DecelOptions;
+  segments?: FhrSegment[];
+};
+
+export type FhrProcess = {
+  T: number[]; // RR intervals (s)
+  curve: number[]; // instantaneous FHR (bpm) at FHR_CURVE_FS
+  accelerations: FhrAcceleration[];
+  decelerations: FhrDeceleration[];
+};
+
+export type FhrLength = { n_beats?: number; duration_sec?: number };
+
+// Upper bound of the recording length (s): the requested beats even at half the baseline rate.
+// Contraction timing for the decelerations must be drawn over at least this horizon.
+export function fhr_horizon_sec(length: FhrLength, baseline: number) {
+  const n_beats = length.n_beats ?? (length.duration_sec == null ? 10 : Infinity);
+  return Math.min(length.duration_sec ?? Infinity, (n_beats * 60) / Math.max(30, 0.5 * baseline)) + 1;
+}
+
+// Stop after n_beats, or once the beats cover duration_sec when it is given
+export function generate_fhr_process(fs: number, rand: RNG, length: FhrLength, opts: FhrOptions = {}): FhrProcess {
+  const {
+    baseline = 140,
+    pattern = "normal",
+    baseline_wander_bpm = 3,
+    baseline_wander_tau_sec = 60,
+    ltv_bpm = 10,
+    ltv_cycles_per_min = [2, 6] as [number, number],
+    stv_ms = 3,
+    accel_rate_per_10min = 2,
+    accel_amplitude_bpm = 15,
+    accel_duration_range = [15, 40] as [number, number],
+    sinusoidal_amplitude_bpm = 10,
+    sinusoidal_cycles_per_min = 4,
+    decelerations: decel_opts,
+    segments = null,
+  } = opts;
+  const n_beats = length.n_beats ?? (length.duration_sec == null ? 10 : Infinity);
+  const duration_sec = length.duration_sec ?? Infinity;
+
+  const est_sec = fhr_horizon_sec(length, baseline);
+  const G = Math.max(2, Math.ceil(est_sec * FHR_CURVE_FS));
+  const dt = 1 / FHR_CURVE_FS;
+  const curve = new Array<number>(G).fill(baseline);
+  const segment_at = (sec: number) => (segments ? find_segment(segments, sec * fs) : null);
+
+  // segment baseline shifts, eased over ~20 s so state changes are not steps
+  if (segments) {
+    const a = Math.exp(-dt / 20);
+    let shift = segment_at(0)?.baseline_shift_bpm ?? 0;
+    for (let i = 0; i < G; i++) {
+      shift = a * shift + (1 - a) * (segment_at(i * dt)?.baseline_shift_bpm ?? 0);
+      curve[i] += shift;
+    }
+  }
+
+  // slow baseline wander: Ornstein-Uhlenbeck
+  if (baseline_wander_bpm > 0) {
+    const a = Math.exp(-dt / baseline_wander_tau_sec);
+    const b = baseline_wander_bpm * Math.sqrt(1 - a * a);
+    let w = 0;
+    for (let i = 0; i < G; i++) {
+      w = a * w + b * gaussian(rand);
+      curve[i] += w;
+    }
+  }
+
+  const accelerations: FhrAcceleration[] = [];
+  if (pattern === "sinusoidal") {
+    // smooth sine-wave undulation; variability and reactivity are absent
+    const f = sinusoidal_cycles_per_min / 60;
+    const phi = 2 * Math.PI * rand();
+    for (let i = 0; i < G; i++) curve[i] += 0.5 * sinusoidal_amplitude_bpm * Math.sin(2 * Math.PI * f * i * dt + phi);
+  } else {
+    // LTV: random-phase sum of sinusoids across the LTV band, scaled to the requested amplitude
+    if (ltv_bpm > 0 || segments) {
+      const K = 6;
+      const ltv = new Array<number>(G).fill(0);
+      for (let k = 0; k < K; k++) {
+        const f = (ltv_cycles_per_min[0] + rand() * (ltv_cycles_per_min[1] - ltv_cycles_per_min[0])) / 60;
+        const phi = 2 * Math.PI * rand();
+        for (let i = 0; i < G; i++) ltv[i] += Math.sin(2 * Math.PI * f * i * dt + phi);
+      }
+      let ss = 0;
+      for (let i = 0; i < G; i++) ss += ltv[i] * ltv[i];
+      const scale = 1 / (2 * Math.SQRT2) / (Math.sqrt(ss / G) || 1);
+      for (let i = 0; i < G; i++) curve[i] += scale * (segment_at(i * dt)?.ltv_bpm ?? ltv_bpm) * ltv[i];
+    }
+    // accelerations: Poisson onsets, raised-cosine bumps. With segments the rate varies over time, so
+    // onsets are drawn at the highest rate and thinned.
+    const max_rate = Math.max(accel_rate_per_10min, ...(segments ?? []).map((g) => g.accel_rate_per_10min));
+    const lam = max_rate / 600;
+    let t = 0;
+    while (lam > 0) {
+      t += -Math.log(1 - rand()) / lam;
+      if (t >= est_sec) break;
+      const seg = segment_at(t);
+      if (segments && rand() * max_rate >= (seg?.accel_rate_per_10min ?? accel_rate_per_10min)) continue;
+      const dur = accel_duration_range[0] + rand() * (accel_duration_range[1] - accel_duration_range[0]);
+      const amp = (seg?.accel_amplitude_bpm ?? accel_amplitude_bpm) * (0.8 + 0.4 * rand());
+      const g0 = Math.floor(t * FHR_CURVE_FS);
+      const L = Math.max(2, Math.round(dur * FHR_CURVE_FS));
+      for (let j = 0; j < L && g0 + j < G; j++) curve[g0 + j] += amp * (0.5 - 0.5 * Math.cos((2 * Math.PI * j) / L));
+      accelerations.push({
+        start: Math.floor(t * fs),
+        end: Math.floor((t + dur) * fs),
+        peak: Math.floor((t + dur / 2) * fs),
+        amplitude_bpm: amp,
+      });
+      t += dur;
+    }
+  }
+
+  const decelerations = decel_opts ? apply_decelerations(curve, fs, rand, decel_opts) : [];
+
+  // integrate beats; STV is suppressed in the sinusoidal pattern
+  const stv = pattern === "sinusoidal" ? 0.3 * stv_ms : stv_ms;
+  const T: number[] = [];
+  let tb = 0;
+  while (T.length < n_beats && tb < duration_sec) {
+    const bpm = Math.max(30, curve_at(curve, tb));
+    const stv_k = segments ? (segment_at(tb)?.stv_ms ?? stv_ms) * (pattern === "sinusoidal" ? 0.3 : 1) : stv;
+    const rr = Math.max(0.2, 60 / bpm + (stv_k / 1000) * gaussian(rand));
+    T.push(rr);
+    tb += rr;
+  }
+
+  // trim the curve to the realized beats and drop events past the end
+  const n_curve = Math.min(G, Math.ceil(tb * FHR_CURVE_FS) + 1);
+  const end_idx = Math.floor(tb * fs);
+  return {
+    T,
+    curve: curve.slice(0, n_curve),
+    accelerations: accelerations.filter((a) => a.start < end_idx).map((a) => ({ ...a, end: Math.min(a.end, end_idx) })),
+    decelerations: decelerations.filter((d) => d.start < end_idx).map((d) => ({ ...d, end: Math.min(d.end, end_idx) })),
+  };
+}
+
+const DEFAULT_DECEL_DEPTH: Record<DecelType, number> = { early: 15, late: 15, variable: 40, prolonged: 30 };
+
+// Subtracts one deceleration per contraction from the curve (in place) and returns their labels.
+//  early:     gradual, mirrors the contraction (nadir at the UC peak)
+//  late:      gradual, same shape delayed by lag_sec (nadir after the UC peak)
+//  variable:  abrupt V-shape (<30 s to nadir), onset anywhere in the rising phase
+//  prolonged: >= 2 min below baseline, starting at the UC peak
+function apply_decelerations(curve: number[], fs: number, rand: RNG, opts: DecelOptions): FhrDeceleration[] {
+  const { uc_events, modes, lag_sec = 25, probability = 1 } = opts;
+  const out: FhrDeceleration[] = [];
+  uc_events.forEach((uc, uc_index) => {
+    const mode = modes?.[uc_index] ?? opts.mode;
+    if (mode === "none" || rand() >= probability) return;
+    const start = uc.start / fs, peak = uc.peak / fs, end = uc.end / fs;
+    const depth = (opts.depth_bpm ?? DEFAULT_DECEL_DEPTH[mode]) * (uc.intensity ?? 1) * (0.8 + 0.4 * rand());
+    let on: number, bottom_on: number, bottom_off: number, off: number;
+    if (mode === "early" || mode === "late") {
+      const lag = mode === "late" ? lag_sec * (0.8 + 0.4 * rand()) : 0;
+      on = start + lag; bottom_on = bottom_off = peak + lag; off = end + lag;
+    } else if (mode === "variable") {
+      on = start + rand() * (peak - start);
+      bottom_on = on + 5 + 10 * rand();
+      bottom_off = bottom_on + 5 * rand();
+      off = bottom_off + 5 + 10 * rand();
+    } else {
+      on = peak;
+      bottom_on = on + 20 + 20 * rand();
+      bottom_off = bottom_on + 90 + 150 * rand();
+      off = bottom_off + 30 + 30 * rand();
+    }
+    const smooth = mode !== "variable";
+    const g0 = Math.max(0, Math.floor(on * FHR_CURVE_FS));
+    const g1 = Math.min(curve.length, Math.ceil(off * FHR_CURVE_FS));
+    for (let g = g0; g < g1; g++) curve[g] -= depth * decel_profile(g / FHR_CURVE_FS, on, bottom_on, bottom_off, off, smooth);
+    out.push({
+      type: mode,
+      start: Math.floor(on * fs),
+      end: Math.floor(off * fs),
+      nadir: Math.floor(((bottom_on + bottom_off) / 2) * fs),
+      depth_bpm: depth,
+      uc_index,
+    });
+  });
+  return out;
+}
+
+// 0 outside [on, off], 1 on the bottom plateau; raised-cosine (smooth) or linear ramps in between
+function decel_profile(t: number, on: number, bottom_on: number, bottom_off: number, off: number, smooth: boolean) {
+  let x: number;
+  if (t <= on || t >= off) return 0;
+  if (t < bottom_on) x = (t - on) / (bottom_on - on);
+  else if (t <= bottom_off) return 1;
+  else x = (off - t) / (off - bottom_off);
+  return smooth ? 0.5 - 0.5 * Math.cos(Math.PI * x) : x;
+}
+
+function find_segment(segments: FhrSegment[], index: number) {
+  for (const g of segments) if (index >= g.start && index < g.end) return g;
+  return null;
+}
+
+// Linear interpolation of the 4 Hz curve, holding the last value past the end
+export function curve_at(curve: number[], t_sec: number) {
+  const x = t_sec * FHR_CURVE_FS;
+  const i0 = Math.floor(x);
+  if (i0 >= curve.length - 1) return curve[curve.length - 1];
+  const w = x - i0;
+  return curve[i0] * (1 - w) + curve[i0 + 1] * w;
+}
+
+// Beat-to-beat FHR (60 / RR of the beat in progress) sampled at FHR_CURVE_FS
+export function fhr_curve_from_rr(T: number[]) {
+  const total = T.reduce((s, v) => s + v, 0);
+  const n = Math.max(1, Math.ceil(total * FHR_CURVE_FS));
+  const out = new Array<number>(n);
+  let k = 0;
+  let beat_end = T[0] ?? Infinity;
+  for (let i = 0; i < n; i++) {
+    const t = i / FHR_CURVE_FS;
+    while (t >= beat_end && k < T.length - 1) beat_end += T[++k];
+    out[i] = T.length ? 60 / T[k] : 0;
+  }
+  return out;
+}
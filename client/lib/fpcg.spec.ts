@@ -0,0 +1,313 @@
+import { describe, it, expect } from "vitest";
+import { replay_options, simulateFpcgDataset, simulateFpcgSample, simulateFpcgSamples } from "./fpcg";
+
+describe("simulateFpcgDataset annotations", () => {
+  const { y, meta } = simulateFpcgDataset({ cycles_per_sample: 12 });
+
+  it("should label one fetal S1/S2 pair per realized beat", () => {
+    expect(meta.T).toHaveLength(12);
+    expect(meta.fetal_s1).toHaveLength(meta.T.length);
+    expect(meta.fetal_s2).toHaveLength(meta.T.length);
+  });
+
+  it("should keep every interval inside the recording", () => {
+    const all = [...meta.fetal_s1, ...meta.fetal_s2, ...meta.maternal_s1, ...meta.maternal_s2];
+    for (const [on, off] of all) {
+      expect(on).toBeGreaterThanOrEqual(0);
+      expect(off).toBeGreaterThan(on);
+      expect(off).toBeLessThanOrEqual(y.length);
+    }
+  });
+
+  it("should place S2 after S1 within each beat", () => {
+    meta.fetal_s1.forEach(([s1], k) => expect(meta.fetal_s2[k][0]).toBeGreaterThan(s1));
+  });
+
+  it("should provide per-sample masks matching the events", () => {
+    expect(meta.movement_mask).toHaveLength(y.length);
+    expect(meta.uc_mask).toHaveLength(y.length);
+    for (const [s, e] of meta.movement_events) {
+      expect(meta.movement_mask[s]).toBe(1);
+      expect(meta.movement_mask[e - 1]).toBe(1);
+    }
+  });
+});
+
+describe("simulateFpcgSamples", () => {
+  it("should return num_samples samples with distinct derived seeds", () => {
+    const samples = simulateFpcgSamples({ cycles_per_sample: 6, num_samples: 3, beat_seed: 7 });
+    expect(samples).toHaveLength(3);
+    expect(samples.map((s) => s.meta.params.sample_index)).toEqual([0, 1, 2]);
+    expect(new Set(samples.map((s) => s.meta.params.beat_seed)).size).toBe(3);
+    expect(new Set(samples.map((s) => s.meta.params.movement_seed)).size).toBe(3);
+    expect(samples[1].y).not.toEqual(samples[0].y);
+  });
+
+  it("should reproduce each sample from its realized master seed", () => {
+    const [, second] = simulateFpcgSamples({ cycles_per_sample: 6, num_samples: 2 });
+    const again = simulateFpcgDataset({ cycles_per_sample: 6, seed: second.meta.params.seed });
+    expect(again.y).toEqual(second.y);
+    expect(again.meta.fetal_s1).toEqual(second.meta.fetal_s1);
+  });
+
+  it("should replay a later sample with per-stream overrides set", () => {
+    const opts = { cycles_per_sample: 6, seed: 7, num_samples: 2, beat_seed: 123, movement_seed: 5, uc_seed: 9, uc_enabled: true };
+    const [, second] = simulateFpcgSamples(opts);
+    expect(second.meta.params.beat_seed).not.toBe(123);
+    const again = simulateFpcgDataset(replay_options(opts, second.meta.params));
+    expect(again.meta.params).toMatchObject({ seed: second.meta.params.seed, beat_seed: second.meta.params.beat_seed, uc_seed: second.meta.params.uc_seed });
+    expect(again.y).toEqual(second.y);
+  });
+
+  it("should generate any one sample of a dataset on its own", () => {
+    const opts = { cycles_per_sample: 6, num_samples: 3, seed: 31, beat_seed: 5 };
+    expect(simulateFpcgSample(opts, 2).y).toEqual(simulateFpcgSamples(opts)[2].y);
+  });
+
+  it("should regenerate a whole dataset from one seed", () => {
+    const a = simulateFpcgSamples({ cycles_per_sample: 6, num_samples: 2, seed: 99 });
+    const b = simulateFpcgSamples({ cycles_per_sample: 6, num_samples: 2, seed: 99 });
+    expect(b.map((s) => s.y)).toEqual(a.map((s) => s.y));
+  });
+});
+
+describe("FHR decelerations", () => {
+  it("should label one decel per contraction and point back at it", () => {
+    const { meta } = simulateFpcgDataset({ duration_sec: 300, seed: 3, uc_rate_per_10min: 6, uc_duration_range: [40, 60], decel_mode: "late" });
+    expect(meta.uc_events.length).toBeGreaterThan(0);
+    expect(meta.decelerations.length).toBeGreaterThan(0);
+    for (const d of meta.decelerations) {
+      expect(d.type).toBe("late");
+      expect(meta.uc_events[d.uc_index]).toBeDefined();
+      expect(d.nadir).toBeGreaterThan(meta.uc_events[d.uc_index].peak);
+    }
+  });
+});
+
+describe("gestational age presets", () => {
+  it("should report GA-derived physiology in the realized params", () => {
+    const early = simulateFpcgDataset({ cycles_per_sample: 4, gestational_age_weeks: 24 }).meta.params;
+    const term = simulateFpcgDataset({ cycles_per_sample: 4, gestational_age_weeks: 40 }).meta.params;
+    expect(early.gestational_age_weeks).toBe(24);
+    expect(early.fhr).toBeGreaterThan(term.fhr);
+    expect(early.s1_amp).toBeLessThan(term.s1_amp);
+    expect(early.r1).toBeGreaterThan(term.r1);
+  });
+
+  it("should let explicit options override the preset", () => {
+    const { params } = simulateFpcgDataset({ cycles_per_sample: 4, gestational_age_weeks: 30, fhr: 155, s1_amp: undefined }).meta;
+    expect(params.fhr).toBe(155);
+    expect(params.s1_amp).toBeGreaterThan(0.45);
+    expect(params.s1_amp).toBeLessThan(0.6);
+  });
+});
+
+describe("twins", () => {
+  it("should annotate each fetus separately over the same recording", () => {
+    const { y, meta, ctg } = simulateFpcgDataset({ cycles_per_sample: 10, seed: 8, twin: { fhr: 120, r1: 0.04 } });
+    expect(meta.twin).not.toBeNull();
+    expect(meta.twin.T.length).toBeGreaterThan(0);
+    expect(meta.twin.fetal_s1.length).toBe(meta.twin.fetal_s2.length);
+    for (const [on, off] of meta.twin.fetal_s1) {
+      expect(on).toBeGreaterThanOrEqual(0);
+      expect(off).toBeLessThanOrEqual(y.length);
+    }
+    expect(meta.params.twin.fhr).toBe(120);
+    expect(meta.params.twin.r1).toBe(0.04);
+    expect(ctg.fhr2).toHaveLength(ctg.fhr.length);
+  });
+
+  it("should leave the first fetus unchanged", () => {
+    const single = simulateFpcgDataset({ cycles_per_sample: 6, seed: 8 });
+    const twins = simulateFpcgDataset({ cycles_per_sample: 6, seed: 8, twin: {} });
+    expect(single.meta.twin).toBeNull();
+    expect(twins.meta.T).toEqual(single.meta.T);
+    expect(twins.meta.fetal_s1).toEqual(single.meta.fetal_s1);
+    expect(twins.y).not.toEqual(single.y);
+  });
+
+  it("should replay a later twin sample with its beat seed overridden", () => {
+    const opts = { cycles_per_sample: 6, seed: 8, num_samples: 2, twin: { beat_seed: 41 } };
+    const [, second] = simulateFpcgSamples(opts);
+    expect(second.meta.params.twin.beat_seed).not.toBe(41);
+    const again = simulateFpcgDataset(replay_options(opts, second.meta.params));
+    expect(again.meta.params.twin.beat_seed).toBe(second.meta.params.twin.beat_seed);
+    expect(again.y).toEqual(second.y);
+  });
+});
+
+describe("fetal rhythm classes", () => {
+  it("should label every beat and render one S1 per audible beat", () => {
+    const { meta } = simulateFpcgDataset({ cycles_per_sample: 12, seed: 6, rhythm: "av_block_2to1", movement_enabled: false, uc_enabled: false });
+    expect(meta.beat_types).toHaveLength(meta.T.length);
+    expect(meta.fetal_s1).toHaveLength(meta.T.length);
+    expect(meta.params.rhythm).toBe("av_block_2to1");
+    expect(60 / meta.T[0]).toBeLessThan(90);
+  });
+
+  it("should move the default rate for sinus bradycardia", () => {
+    const { params } = simulateFpcgDataset({ cycles_per_sample: 4, rhythm: "sinus_bradycardia" }).meta;
+    expect(params.fhr).toBeLessThan(110);
+  });
+});
+
+describe("sensor array", () => {
+  it("should reproduce y at the origin when sensor noise is fully shared", () => {
+    const out = simulateFpcgDataset({ cycles_per_sample: 6, seed: 12, sensors: [{ x: 0, y: 0 }], sensor_noise_correlation: 1 });
+    expect(out.channels).toHaveLength(1);
+    expect(out.channels[0].y).toEqual(out.y);
+    expect(out.channels[0].meta.fetal_s1).toEqual(out.meta.fetal_s1);
+  });
+
+  it("should derive per-sensor paths from the layout", () => {
+    const sensors = [{ x: 0, y: 0 }, { x: 0.1, y: 0 }, { x: 0, y: 0.1 }];
+    const { channels, y } = simulateFpcgDataset({ cycles_per_sample: 6, seed: 12, sensors });
+    const [origin, side, up] = channels.map((c) => c.meta);
+    expect(side.fetal_gain).toBeLessThan(origin.fetal_gain);
+    expect(side.r1).toBeGreaterThan(origin.r1);
+    expect(side.fetal_delay).toBeGreaterThanOrEqual(origin.fetal_delay);
+    // closer to the maternal heart
+    expect(up.maternal_gain).toBeGreaterThan(origin.maternal_gain);
+    for (const c of channels) {
+      expect(c.y).toHaveLength(y.length);
+      for (const [on, off] of [...c.meta.fetal_s1, ...c.meta.maternal_s1]) {
+        expect(on).toBeGreaterThanOrEqual(0);
+        expect(off).toBeLessThanOrEqual(y.length);
+      }
+    }
+  });
+});
+
+describe("maternal interference", () => {
+  it("should be off by default and labeled when enabled", () => {
+    const quiet = simulateFpcgDataset({ duration_sec: 60, seed: 14 });
+    expect(quiet.meta.maternal_events).toHaveLength(0);
+    expect(quiet.meta.breaths).toHaveLength(0);
+    const noisy = simulateFpcgDataset({ duration_sec: 60, seed: 14, maternal_interference: { bowel_rate_per_min: 6 } });
+    expect(noisy.meta.maternal_events.some((e) => e.type === "bowel")).toBe(true);
+    expect(noisy.meta.breaths.length).toBeGreaterThan(0);
+    expect(noisy.meta.fetal_s1).toEqual(quiet.meta.fetal_s1);
+  });
+});
+
+describe("paired Doppler", () => {
+  it("should share the beat timing and time axis of the fPCG", () => {
+    const { t, meta, doppler } = simulateFpcgDataset({ cycles_per_sample: 8, seed: 16, doppler: { fs: 4000 } });
+    expect(doppler.t[doppler.t.length - 1]).toBeCloseTo(t[t.length - 1], 2);
+    const closures = doppler.events.filter((e) => e.type === "av_close");
+    expect(closures).toHaveLength(meta.T.length);
+    // S1 annotations are the AV closure plus the acoustic path delay
+    for (let k = 0; k < closures.length; k++) expect(closures[k].index / doppler.fs).toBeLessThanOrEqual(meta.fetal_s1[k][0] / meta.fs + 1e-3);
+    expect(simulateFpcgDataset({ cycles_per_sample: 2 }).doppler).toBeNull();
+  });
+});
+
+describe("abdominal fECG", () => {
+  it("should lock fetal R-peaks to the S1 annotations", () => {
+    const { y, meta, fecg } = simulateFpcgDataset({ cycles_per_sample: 10, seed: 18, fecg: { emd_jitter_sec: 0 } });
+    expect(fecg.y).toHaveLength(y.length);
+    expect(fecg.fetal_r.length).toBeGreaterThan(0);
+    const s1 = meta.fetal_s1.map(([on]) => on);
+    for (const r of fecg.fetal_r) expect(s1.some((on) => on - r >= 70 && on - r <= 75)).toBe(true);
+  });
+});
+
+describe("behavioral states", () => {
+  it("should label the states and move the fetus with them", () => {
+    const opts = { duration_sec: 600, seed: 20, uc_enabled: false, behavioral_states: { initial_state: "1F" as const, mean_duration_min: { "1F": 5, "2F": 5 } } };
+    const { y, meta } = simulateFpcgDataset(opts);
+    const states = meta.behavioral_states;
+    expect(states[0]).toMatchObject({ state: "1F", start: 0 });
+    expect(states[states.length - 1].end).toBe(y.length);
+    const rate = (g: { start: number; end: number }) => meta.movement_events.filter(([s]) => s >= g.start && s < g.end).length / (g.end - g.start);
+    const quiet = states.filter((g) => g.state === "1F"), active = states.filter((g) => g.state === "2F" || g.state === "4F");
+    expect(active.length).toBeGreaterThan(0);
+    expect(Math.max(...active.map(rate))).toBeGreaterThan(Math.max(...quiet.map(rate)));
+    for (const a of meta.accelerations) expect(quiet.some((g) => a.start >= g.start && a.start < g.end)).toBe(false);
+    expect(simulateFpcgDataset({ cycles_per_sample: 4 }).meta.behavioral_states).toHaveLength(0);
+  });
+});
+
+describe("layered tissue path", () => {
+  it("should lower the fetal SNR with BMI and keep the beat annotations", () => {
+    const lean = simulateFpcgDataset({ cycles_per_sample: 20, seed: 22, fs: 2000, tissue: { bmi: 20 } });
+    const obese = simulateFpcgDataset({ cycles_per_sample: 20, seed: 22, fs: 2000, tissue: { bmi: 40 } });
+    expect(obese.meta.tissue.depth).toBeGreaterThan(lean.meta.tissue.depth);
+    expect(lean.meta.tissue.fetal_snr_db - obese.meta.tissue.fetal_snr_db).toBeGreaterThan(5);
+    expect(obese.meta.fetal_s1).toEqual(lean.meta.fetal_s1);
+    expect(simulateFpcgDataset({ cycles_per_sample: 2 }).meta.tissue).toBeNull();
+  });
+});
+
+describe("presentation and sensor placement", () => {
+  it("should weaken the fetal sounds away from the heart", () => {
+    const opts = { cycles_per_sample: 12, seed: 24, presentation: "breech" as const, fetal_back: "right" as const, movement_enabled: false, uc_enabled: false };
+    const good = simulateFpcgDataset({ ...opts, sensor_position: { x: -0.06, y: 0.07 } });
+    const bad = simulateFpcgDataset({ ...opts, sensor_position: { x: 0.08, y: -0.1 } });
+    expect(good.meta.placement.heart).toMatchObject({ x: -0.06, y: 0.07 });
+    expect(good.meta.placement.gain).toBe(1);
+    expect(bad.meta.placement.distance).toBeGreaterThan(good.meta.placement.distance);
+    expect(bad.meta.placement.gain).toBeLessThan(0.5);
+    expect(bad.meta.fetal_s1).toEqual(good.meta.fetal_s1);
+    const plain = simulateFpcgDataset({ cycles_per_sample: 2 }).meta.placement;
+    expect(plain.presentation).toBeNull();
+    expect(plain.heart).toMatchObject({ x: 0, y: 0 });
+  });
+});
+
+describe("fetal murmurs", () => {
+  it("should label one systolic murmur per beat between S1 and S2", () => {
+    const { meta } = simulateFpcgDataset({ cycles_per_sample: 10, seed: 26, murmur: { type: "tricuspid_regurgitation", severity: 0.8 } });
+    expect(meta.murmurs.length).toBeGreaterThan(0);
+    for (const m of meta.murmurs) {
+      expect(m.type).toBe("tricuspid_regurgitation");
+      expect(m.start).toBe(meta.fetal_s1[m.beat][0]);
+      expect(m.end).toBeGreaterThan(meta.fetal_s2[m.beat][0]);
+    }
+    expect(simulateFpcgDataset({ cycles_per_sample: 2 }).meta.murmurs).toHaveLength(0);
+  });
+});
+
+describe("maternal pickup", () => {
+  it("should label the dominant heart and follow the maternal rate drift", () => {
+    const opts = { duration_sec: 60, seed: 27 };
+    const plain = simulateFpcgDataset(opts);
+    expect(plain.meta.dominance).toMatchObject([{ source: "fetal", start: 0, end: plain.y.length }]);
+    const pickup = simulateFpcgDataset({
+      ...opts, presentation: "cephalic", sensor_position: { x: 0.1, y: 0.1 }, maternal_s1_amp: 0.3, maternal_s2_amp: 0.2,
+      mhr_drift: { to: "half_fhr", duration_sec: 30 },
+    });
+    const { dominance } = pickup.meta;
+    expect(dominance.some((d) => d.source === "maternal" && d.ratio_db < 0)).toBe(true);
+    expect(dominance[0].start).toBe(0);
+    expect(dominance[dominance.length - 1].end).toBe(pickup.y.length);
+    for (let k = 1; k < dominance.length; k++) expect(dominance[k].start).toBe(dominance[k - 1].end);
+    // 140 bpm fetus: the maternal channel settles near 70 bpm
+    expect(pickup.ctg.mhr![pickup.ctg.mhr!.length - 1]).toBeGreaterThan(62);
+    expect(pickup.ctg.mhr![pickup.ctg.mhr!.length - 1]).toBeLessThan(76);
+    expect(pickup.meta.fetal_s1).toEqual(plain.meta.fetal_s1);
+  });
+});
+
+describe("labor stages", () => {
+  it("should drive the contractions and decelerations from the stage plan", () => {
+    const { y, meta, ctg } = simulateFpcgDataset({ duration_sec: 1200, seed: 28, movement_enabled: false, labor: { stages: ["active", "second"] } });
+    const stages = meta.labor_stages;
+    expect(stages.map((g) => g.stage)).toEqual(["active", "second"]);
+    expect(stages[stages.length - 1].end).toBe(y.length);
+    expect(meta.uc_events.length).toBeGreaterThan(3);
+    for (const uc of meta.uc_events) expect(uc.intensity).toBeGreaterThan(0);
+    expect(meta.decelerations.length).toBeGreaterThan(0);
+    for (const d of meta.decelerations) {
+      const uc = meta.uc_events[d.uc_index];
+      expect(d.type).toBe(uc.start >= stages[1].start ? "variable" : "early");
+    }
+    expect(meta.labor_events.some((e) => e.type === "push")).toBe(true);
+    // toco follows the contraction strength
+    const peak = meta.uc_events[0].peak;
+    expect(ctg.toco[Math.floor((peak / meta.fs) * ctg.fs)]).toBeGreaterThan(12 + 20);
+    const plain = simulateFpcgDataset({ cycles_per_sample: 4 }).meta;
+    expect(plain.labor_stages).toHaveLength(0);
+    expect(plain.labor_events).toHaveLength(0);
+  });
+});
@@ -1,19 +1,209 @@
 // Fetal Phonocardiogram (fPCG) simulation utilities
 // Ported from user's Python code to TypeScript for in-browser/local generation
 
-export type UcEvent = { start: number; end: number; peak: number };
-export type FpcgMeta = { movement_events: Array<[number, number]>; uc_events: UcEvent[] };
+import {
+  conduct, is_independent_rhythm, pacemaker_beats, rhythm_defaults,
+  type BeatType, type FetalRhythmType, type RhythmOptions,
+} from "./arrhythmia";
+import {
+  behavioral_state_profile, generate_behavioral_states, type BehavioralStateInterval, type BehavioralStateOptions,
+} from "./behavior";
+import { build_ctg, type CtgTrace } from "./ctg";
+import {
+  FHR_CURVE_FS, fhr_curve_from_rr, fhr_horizon_sec, generate_fhr_process,
+  type DecelType, type FhrAcceleration, type FhrDeceleration, type FhrLength, type FhrOptions, type FhrPattern,
+} from "./fhr";
+import { convolve, onepole_lowpass, rms, simple_bandpass } from "./dsp";
+import { render_doppler, type DopplerOptions, type DopplerTrace } from "./doppler";
+import { render_abdominal_ecg, type FecgOptions, type FecgTrace } from "./fecg";
+import { gestational_age_defaults } from "./gestation";
+import {
+  generate_labor_plan, render_labor_artifacts, type LaborEvent, type LaborOptions, type LaborStageInterval,
+} from "./labor";
+import { render_fetal_murmur, type FetalMurmurEvent, type FetalMurmurOptions } from "./murmur";
+import { generate_maternal_interference, type MaternalEvent, type MaternalInterferenceOptions } from "./maternal";
+import {
+  DEFAULT_MATERNAL_HEART, fetal_heart_offset, fetal_path, source_distance,
+  type FetalBack, type FetalPresentation, type SensorPosition, type SourcePosition,
+} from "./sensors";
+import {
+  layers_depth, scale_layers, tissue_delay_sec, tissue_kernel, tissue_layers, type TissueLayer, type TissueOptions,
+} from "./tissue";
+import { createSeedStreams, deriveSeed, gaussian, seededRng, type RNG, type SeedStreams } from "./rng";
+
+// intensity: envelope peak, set by labor stages (1 when unset)
+export type UcEvent = { start: number; end: number; peak: number; intensity?: number };
+// All indices are sample positions in `y`; intervals are [onset, offset) and clipped to the recording.
+export type FpcgMeta = {
+  fs: number;
+  movement_events: Array<[number, number]>;
+  uc_events: UcEvent[];
+  // fetal S1/S2 as they arrive at the sensor (source position + propagation delay)
+  fetal_s1: Array<[number, number]>;
+  fetal_s2: Array<[number, number]>;
+  maternal_s1: Array<[number, number]>;
+  maternal_s2: Array<[number, number]>;
+  // realized RR series (seconds) for fetal and maternal hearts
+  T: number[];
+  Tm: number[];
+  // rhythm label of each fetal beat, aligned with T
+  beat_types: BeatType[];
+  // instantaneous fetal heart rate (bpm) driving the beats, sampled at fhr_curve_fs
+  fhr_curve: number[];
+  fhr_curve_fs: number;
+  accelerations: FhrAcceleration[];
+  decelerations: FhrDeceleration[]; // uc_index refers to uc_events
+  // which heart is louder at the main sensor, per run of DOMINANCE_WINDOW_SEC windows
+  dominance: SourceDominance[];
+  // systolic murmur of each beat as it arrives at the main sensor (SimOptions.murmur), empty when off
+  murmurs: FetalMurmurEvent[];
+  // per-sample activity masks (1 = active)
+  movement_mask: number[];
+  uc_mask: number[];
+  // maternal interference (SimOptions.maternal_interference): labeled non-cardiac events and inspiration phases
+  maternal_events: MaternalEvent[];
+  breaths: Array<[number, number]>;
+  // fetal behavioral state timeline (SimOptions.behavioral_states), empty when off
+  behavioral_states: BehavioralStateInterval[];
+  // labor stage timeline and pushing artifacts (SimOptions.labor), empty when off
+  labor_stages: LaborStageInterval[];
+  labor_events: LaborEvent[];
+  // fetal heart and main sensor on the abdomen (see sensors.ts) and the path between them
+  placement: PlacementMeta;
+  // layered tissue path (SimOptions.tissue), null with the two-exponential model
+  tissue: TissuePathMeta | null;
+  // second fetal heart when SimOptions.twin is set, null for a singleton
+  twin: FetalSourceMeta | null;
+  // resolved inputs for this sample, enough to regenerate it
+  params: FpcgRealizedParams;
+};
+
+// ratio_db: fetal over maternal heart-sound energy at the main sensor across the segment
+export type SourceDominance = { source: "fetal" | "maternal"; start: number; end: number; ratio_db: number };
+
+// distance (m) from the heart to the main sensor; gain and delay (samples) of that path relative to the
+// point right above the heart
+export type PlacementMeta = {
+  presentation: FetalPresentation | null;
+  fetal_back: FetalBack;
+  heart: SourcePosition;
+  sensor: SensorPosition;
+  distance: number;
+  gain: number;
+  delay: number;
+};
+
+// Layers from the fetal heart to the point above it, the travel time (samples) to the main sensor and
+// the fetal SNR the recording ends up with once the tissue loss is applied
+export type TissuePathMeta = { layers: TissueLayer[]; depth: number; delay: number; fetal_snr_db: number };
+
+// Per-fetus annotations; same conventions as the flat fields of FpcgMeta
+export type FetalSourceMeta = {
+  fetal_s1: Array<[number, number]>;
+  fetal_s2: Array<[number, number]>;
+  T: number[];
+  beat_types: BeatType[];
+  fhr_curve: number[];
+  accelerations: FhrAcceleration[];
+  decelerations: FhrDeceleration[];
+};
+
+export type FpcgRealizedParams = {
+  sample_index: number;
+  seed: number; // master seed of this sample; simulateFpcgDataset(replay_options(opts, params)) replays it
+  cycles_per_sample: number;
+  duration_sec: number | null;
+  gestational_age_weeks: number | null;
+  fhr: number;
+  s1_amp: number;
+  s2_amp: number;
+  s1_dur: number;
+  s2_dur: number;
+  ssid_ms: number;
+  r1: number;
+  r2: number;
+  fhr_model: FhrModel;
+  rhythm: FetalRhythmType;
+  fhr_pattern: FhrPattern;
+  decel_mode: DecelType | "none";
+  mhr: number;
+  snr_db: number;
+  rr_std_frac: number;
+  beat_seed: number;
+  maternal_seed: number;
+  noise_seed: number;
+  movement_seed: number;
+  uc_seed: number;
+  toco_seed: number;
+  interference_seed: number;
+  doppler_seed: number;
+  fecg_seed: number;
+  behavior_seed: number;
+  murmur_seed: number;
+  labor_seed: number;
+  twin: { fhr: number; rhythm: FetalRhythmType; ssid_ms: number; r1: number; r2: number; beat_seed: number } | null;
+};
+
+export type FhrModel = "variable" | "jitter";
+
+// Second fetal heart. Unset fields follow the first fetus, except fhr (+10 bpm), r1 (+2 cm: the twin
+// lies deeper), ssid_ms (shifted -0.5 ms/bpm with the rate) and rhythm (sinus). FHR model, decelerations
+// and the ectopy/SVT/escape settings are shared.
+export type TwinOptions = {
+  fhr?: number;
+  rhythm?: FetalRhythmType;
+  fhr_pattern?: FhrPattern;
+  fhr_baseline_wander_bpm?: number;
+  fhr_ltv_bpm?: number;
+  fhr_stv_ms?: number;
+  fhr_accel_rate_per_10min?: number;
+  fhr_accel_amplitude_bpm?: number;
+  s1_amp?: number; s2_amp?: number;
+  s1_dur?: number; s2_dur?: number;
+  ssid_ms?: number;
+  r1?: number; c1?: number; beta1?: number; A1?: number;
+  r2?: number; c2?: number; beta2?: number; A2?: number;
+  beat_seed?: number | null;
+  position?: SensorPosition; // lateral offset of the twin's heart from the first one (m), see sensors.ts
+};
+
+// mhr ramps linearly to `to` over [start_sec, start_sec + duration_sec) and holds there (clamped to
+// 40-220 bpm). "fhr", "half_fhr" and "double_fhr" are taken from the fetal baseline: the rates at which a
+// monitor can mistake the maternal heart for the fetal one.
+export type MhrDrift = { to: number | "fhr" | "half_fhr" | "double_fhr"; start_sec?: number; duration_sec?: number };
 
 export type SimOptions = {
   num_samples?: number;
   cycles_per_sample?: number;
+  duration_sec?: number; // when set, beats are generated until this length instead of cycles_per_sample
   fs?: number;
+  // sets coherent defaults for fhr, S1/S2 amplitude and duration, ssid_ms, r1 and r2 (see gestation.ts);
+  // any of those given explicitly still wins
+  gestational_age_weeks?: number;
   fhr?: number; // fetal heart rate (bpm)
   mhr?: number; // maternal heart rate (bpm)
+  mhr_drift?: MhrDrift | null; // maternal rate trajectory away from mhr; constant when unset
+  maternal_s1_amp?: number; maternal_s2_amp?: number; // mean maternal S1/S2 amplitude at the sensor
   snr_db?: number;
+  // fetal heart sounds: mean S1/S2 amplitude and duration (s), S1-S2 interval at the baseline rate (ms)
+  s1_amp?: number; s2_amp?: number;
+  s1_dur?: number; s2_dur?: number;
+  ssid_ms?: number;
+  // master seed; every substream below is derived from it (null = random, reported in meta.params)
+  seed?: number | null;
+  // optional per-stream overrides of the derived seeds
+  beat_seed?: number | null;
   // transmission
   r1?: number; c1?: number; beta1?: number; A1?: number;
   r2?: number; c2?: number; beta2?: number; A2?: number;
+  // layered tissue path (see tissue.ts) replacing the r/c/beta/A model; r1 becomes the amniotic fluid
+  // layer. snr_db is then referenced to the fetal sound before tissue loss, so thick layers lower the SNR.
+  tissue?: TissueOptions | null;
+  // fetal lie and the side of its back place the heart relative to the umbilicus, which becomes the
+  // origin of sensor_position and `sensors` (see sensors.ts); without one the heart is at the origin
+  presentation?: FetalPresentation | null;
+  fetal_back?: FetalBack;
+  sensor_position?: SensorPosition; // main output `y`
   // movement
   movement_enabled?: boolean;
   movement_intensity?: number;
@@ -31,29 +221,92 @@ export type SimOptions = {
   uc_noise_band?: [number, number];
   uc_noise_intensity?: number;
   uc_seed?: number | null;
-  // arrhythmia control (std of RR as fraction of mean)
+  // tocodynamometer channel of the CTG output
+  toco_baseline_mmhg?: number;
+  toco_amplitude_mmhg?: number;
+  toco_noise_mmhg?: number;
+  // maternal respiration, bowel, aortic and voice/cough interference (see maternal.ts); off when unset
+  maternal_interference?: MaternalInterferenceOptions | null;
+  // paired handheld-Doppler audio of the same beats (see doppler.ts); off when unset
+  doppler?: DopplerOptions | null;
+  // abdominal ECG with separate fetal/maternal stems, R-peaks locked to the S1s (see fecg.ts); off when unset
+  fecg?: FecgOptions | null;
+  // fetal structural-disease murmur between each S1 and S2 (see murmur.ts); off when unset
+  murmur?: FetalMurmurOptions | null;
+  // 1F-4F behavioral states (see behavior.ts): each state sets FHR variability, accelerations and the
+  // movement rate/intensity while it lasts, replacing fhr_ltv_bpm, fhr_stv_ms, fhr_accel_* and
+  // movement_rate_per_min/movement_intensity; off when unset. Applies to the first fetus only.
+  behavioral_states?: BehavioralStateOptions | null;
+  // first/second-stage labor over the whole recording (see labor.ts): contractions ramp up stage by stage
+  // and replace uc_enabled, uc_rate_per_10min and uc_duration_range, each one drawing the decel its stage
+  // calls for (replacing decel_mode); pushing adds maternal artifacts. Off when unset.
+  labor?: LaborOptions | null;
+  // FHR process: "variable" = wandering baseline, STV/LTV, accelerations (see fhr.ts); "jitter" = legacy rr_std_frac
+  fhr_model?: FhrModel;
+  fhr_pattern?: FhrPattern;
+  fhr_baseline_wander_bpm?: number;
+  fhr_ltv_bpm?: number;
+  fhr_stv_ms?: number;
+  fhr_accel_rate_per_10min?: number;
+  fhr_accel_amplitude_bpm?: number;
+  fhr_accel_duration_range?: [number, number];
+  fhr_sinusoidal_amplitude_bpm?: number;
+  fhr_sinusoidal_cycles_per_min?: number;
+  // FHR decelerations coupled to each UC event (variable FHR model, uc_enabled)
+  decel_mode?: DecelType | "none";
+  decel_depth_bpm?: number;
+  decel_lag_sec?: number; // late decels
+  decel_probability?: number;
+  // arrhythmia control (std of RR as fraction of mean); jitter model, and maternal RR
   rr_std_frac?: number;
+  // rhythm class (see arrhythmia.ts); bradycardia/tachycardia also move the default fhr
+  rhythm?: FetalRhythmType;
+  ectopic_prob?: number; // pac / blocked_pac, per sinus beat
+  svt_rate_bpm?: number;
+  escape_rate_bpm?: number; // complete AV block
+  // mix a second fetal heart (own rhythm, heart sounds and propagation path)
+  twin?: TwinOptions | null;
+  // abdominal sensor array (see sensors.ts); each position adds one channel to SimOutput.channels
+  sensors?: SensorPosition[] | null;
+  maternal_heart_position?: SourcePosition;
+  sensor_noise_correlation?: number; // 0 = independent sensor noise, 1 = identical on every channel
+};
+
+// One sensor of the array: same sources and artifacts as `y`, re-propagated along this sensor's paths
+export type SensorChannelMeta = {
+  sensor: SensorPosition;
+  // fetal path: layer lengths (m), direct-path delay (samples) and spreading gain relative to the point above the heart
+  r1: number;
+  r2: number;
+  fetal_delay: number;
+  fetal_gain: number;
+  // maternal heart relative to the main sensor (SimOptions.sensor_position)
+  maternal_delay: number;
+  maternal_gain: number;
+  fetal_s1: Array<[number, number]>;
+  fetal_s2: Array<[number, number]>;
+  maternal_s1: Array<[number, number]>;
+  maternal_s2: Array<[number, number]>;
+  twin: { r1: number; r2: number; delay: number; gain: number; fetal_s1: Array<[number, number]>; fetal_s2: Array<[number, number]> } | null;
 };
 
+export type SensorChannel = { y: number[]; meta: SensorChannelMeta };
+
 export type SimOutput = {
   t: number[];
   y: number[];
   meta: FpcgMeta;
+  // 4 Hz FHR + toco reference from the same simulation (see ctg.ts)
+  ctg: CtgTrace;
+  // one per SimOptions.sensors entry; empty without a sensor layout
+  channels: SensorChannel[];
+  // Doppler audio at its own rate over the same time axis, null unless SimOptions.doppler is set
+  doppler: DopplerTrace | null;
+  // abdominal ECG at fs, same sample indices as y; null unless SimOptions.fecg is set
+  fecg: FecgTrace | null;
 };
 
 // Utilities
-function rngFactory(seed?: number | null) {
-  if (seed == null) return Math.random;
-  // Mulberry32
-  let s = (seed >>> 0) || 123456789;
-  return function() {
-    s |= 0; s = (s + 0x6D2B79F5) | 0;
-    let t = Math.imul(s ^ (s >>> 15), 1 | s);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
 function linspace(start: number, end: number, n: number) {
   const arr = new Array<number>(n);
   const step = (end - start) / Math.max(1, n - 1);
@@ -81,30 +334,6 @@ function generate_heart_sound(center_freq: number, duration: number, fs: number,
   return { t, signal };
 }
 
-// -----------------------------
-// 1st-order filters
-// -----------------------------
-function onepole_lowpass(x: number[], fc: number, fs: number) {
-  if (fc <= 0) return x.slice();
-  const a = Math.exp((-2 * Math.PI * fc) / fs);
-  const y = new Array<number>(x.length).fill(0);
-  for (let i = 1; i < x.length; i++) y[i] = a * y[i - 1] + (1 - a) * x[i];
-  return y;
-}
-function onepole_highpass(x: number[], fc: number, fs: number) {
-  if (fc <= 0) return x.slice();
-  const low = onepole_lowpass(x, fc, fs);
-  const y = new Array<number>(x.length);
-  for (let i = 0; i < x.length; i++) y[i] = x[i] - low[i];
-  return y;
-}
-function simple_bandpass(x: number[], f_lo: number, f_hi: number, fs: number) {
-  let y = x;
-  if (!(f_hi == null || f_hi >= fs / 2)) y = onepole_lowpass(y, f_hi, fs);
-  if (!(f_lo == null || f_lo <= 0)) y = onepole_highpass(y, f_lo, fs);
-  return y;
-}
-
 // -----------------------------
 // Propagation kernel
 // -----------------------------
@@ -122,8 +351,11 @@ function expo_conv_kernel(r: number, c: number, fs: number, beta: number, A = 1.
 // -----------------------------
 // Movement artifacts
 // -----------------------------
+// segments (sample indices) override rate_per_min and intensity while they last, e.g. behavioral states
+type MovementSegment = { start: number; end: number; rate_per_min: number; intensity: number };
 function generate_movement_artifacts(total_len: number, fs: number, opts: {
   rate_per_min?: number; duration_range?: [number, number]; band?: [number, number]; intensity?: number; thump_prob?: number; seed?: number | null;
+  segments?: MovementSegment[] | null;
 } = {}) {
   const {
     rate_per_min = 6,
@@ -132,18 +364,23 @@ function generate_movement_artifacts(total_len: number, fs: number, opts: {
     intensity = 1.0,
     thump_prob = 0.25,
     seed = null,
+    segments = null,
   } = opts;
-  const rand = rngFactory(seed);
+  const rand = seededRng(seed);
   const movement = new Array<number>(total_len).fill(0);
   const events: Array<[number, number]> = [];
   const total_sec = total_len / fs;
-  const lam = rate_per_min / 60.0;
+  const segment_at = (sec: number) => segments?.find((g) => sec * fs >= g.start && sec * fs < g.end) ?? null;
+  // time-varying rate: draw at the highest rate and thin
+  const max_rate = Math.max(rate_per_min, ...(segments ?? []).map((g) => g.rate_per_min));
+  const lam = max_rate / 60.0;
   let t = 0;
   const starts: number[] = [];
   while (true) {
     const gap = lam > 0 ? -Math.log(1 - rand()) / lam : Infinity; // exponential
     t += gap;
     if (t >= total_sec) break;
+    if (segments && rand() * max_rate >= (segment_at(t)?.rate_per_min ?? rate_per_min)) continue;
     starts.push(t);
   }
   for (const st of starts) {
@@ -169,7 +406,8 @@ function generate_movement_artifacts(total_len: number, fs: number, opts: {
         y[th_center + k] += Math.exp((-4.0 * k) / Math.max(1, th_dur));
       }
     }
-    for (let i = 0; i < seg_len; i++) y[i] *= 0.25 * intensity;
+    const gain = 0.25 * (segment_at(st)?.intensity ?? intensity);
+    for (let i = 0; i < seg_len; i++) y[i] *= gain;
     for (let i = s_idx, j = 0; i < e_idx; i++, j++) movement[i] += y[j];
     events.push([s_idx, e_idx]);
   }
@@ -179,22 +417,17 @@ function generate_movement_artifacts(total_len: number, fs: number, opts: {
 // -----------------------------
 // Uterine contraction envelope
 // -----------------------------
-function generate_uc_envelope(total_len: number, fs: number, opts: {
-  rate_per_10min?: number; duration_range?: [number, number]; rise_fall_frac?: [number, number]; attenuation?: number; noise_band?: [number, number]; noise_intensity?: number; seed?: number | null;
+// Contraction timing is drawn before the beats, since FHR decelerations follow each contraction;
+// the envelope and its noise are rendered once the recording length is known.
+function generate_uc_events(total_sec: number, fs: number, rand: RNG, opts: {
+  rate_per_10min?: number; duration_range?: [number, number]; rise_fall_frac?: [number, number];
 } = {}) {
   const {
     rate_per_10min = 3.0,
     duration_range = [30.0, 90.0],
     rise_fall_frac = [0.3, 0.3] as [number, number],
-    attenuation = 0.45,
-    noise_band = [0.5, 20.0] as [number, number],
-    noise_intensity = 0.8,
-    seed = null,
   } = opts;
-  const rand = rngFactory(seed);
-  const uc_env = new Array<number>(total_len).fill(0);
   const uc_events: UcEvent[] = [];
-  const total_sec = total_len / fs;
   const lam = rate_per_10min / 600.0;
   let t = 0;
   const starts: number[] = [];
@@ -207,60 +440,163 @@ function generate_uc_envelope(total_len: number, fs: number, opts: {
   for (const st of starts) {
     const dur = duration_range[0] + rand() * (duration_range[1] - duration_range[0]);
     const s_idx = Math.floor(st * fs);
-    const e_idx = Math.min(total_len, s_idx + Math.max(1, Math.floor(dur * fs)));
+    const e_idx = s_idx + Math.max(1, Math.floor(dur * fs));
+    const { Lr, Lp } = uc_segments(e_idx - s_idx, rise_fall_frac);
+    if (e_idx - s_idx < 8) continue;
+    const peak = s_idx + Lr + Math.floor(Math.max(0, Lp - 1) / 2);
+    uc_events.push({ start: s_idx, end: e_idx, peak });
+  }
+  return uc_events;
+}
+
+function uc_segments(L: number, rise_fall_frac: [number, number]) {
+  const Lr = Math.max(2, Math.floor(rise_fall_frac[0] * L));
+  const Lf = Math.max(2, Math.floor(rise_fall_frac[1] * L));
+  const Lp = Math.max(0, L - Lr - Lf);
+  return { Lr, Lf, Lp };
+}
+
+function render_uc_envelope(uc_events: UcEvent[], total_len: number, fs: number, rand: RNG, opts: {
+  rise_fall_frac?: [number, number]; noise_band?: [number, number]; noise_intensity?: number;
+} = {}) {
+  const {
+    rise_fall_frac = [0.3, 0.3] as [number, number],
+    noise_band = [0.5, 20.0] as [number, number],
+    noise_intensity = 0.8,
+  } = opts;
+  const uc_env = new Array<number>(total_len).fill(0);
+  for (const { start: s_idx, end: e_idx, intensity = 1 } of uc_events) {
     const L = e_idx - s_idx;
-    if (L < 8) continue;
-    const r_frac = rise_fall_frac[0];
-    const f_frac = rise_fall_frac[1];
-    const Lr = Math.max(2, Math.floor(r_frac * L));
-    const Lf = Math.max(2, Math.floor(f_frac * L));
-    const Lp = Math.max(0, L - Lr - Lf);
+    const { Lr, Lf, Lp } = uc_segments(L, rise_fall_frac);
     const env_seg = new Array<number>(L);
     // up
     for (let i = 0; i < Lr; i++) env_seg[i] = 0.5 - 0.5 * Math.cos((Math.PI * i) / Lr);
     for (let i = 0; i < Lp; i++) env_seg[Lr + i] = 1;
     for (let i = 0; i < Lf; i++) env_seg[Lr + Lp + i] = 0.5 + 0.5 * Math.cos((Math.PI * i) / Lf);
     // trim
-    for (let i = s_idx, j = 0; i < e_idx; i++, j++) uc_env[i] = Math.max(uc_env[i], env_seg[j] ?? 0);
-    const peak = s_idx + Lr + Math.floor(Math.max(0, Lp - 1) / 2);
-    uc_events.push({ start: s_idx, end: e_idx, peak });
+    for (let i = s_idx, j = 0; i < Math.min(e_idx, total_len); i++, j++) uc_env[i] = Math.max(uc_env[i], intensity * (env_seg[j] ?? 0));
   }
 
-  // low-frequency noise multiplied by envelope
-  let base = new Array<number>(total_len);
-  for (let i = 0; i < total_len; i++) base[i] = gaussian(rand);
-  base = simple_bandpass(base, noise_band[0], noise_band[1], fs);
-  base = onepole_lowpass(base, 2.0, fs);
-  const base_rms = rms(base);
-  if (base_rms > 0) for (let i = 0; i < base.length; i++) base[i] /= base_rms;
-  const uc_noise = base.map((v, i) => v * (noise_intensity * uc_env[i]));
+  // low-frequency noise multiplied by envelope, filtered in place
+  const uc_noise = new Array<number>(total_len);
+  for (let i = 0; i < total_len; i++) uc_noise[i] = gaussian(rand);
+  simple_bandpass(uc_noise, noise_band[0], noise_band[1], fs, uc_noise);
+  onepole_lowpass(uc_noise, 2.0, fs, uc_noise);
+  const scale = noise_intensity / (rms(uc_noise) || 1);
+  for (let i = 0; i < total_len; i++) uc_noise[i] *= scale * uc_env[i];
 
-  return { uc_env, uc_noise, uc_events, params: { rate_per_10min, duration_range, rise_fall_frac, attenuation, noise_band, noise_intensity } };
+  return { uc_env, uc_noise };
 }
 
 // -----------------------------
 // Helpers
 // -----------------------------
-function rms(arr: number[]) { return Math.sqrt(arr.reduce((s, v) => s + v * v, 0) / Math.max(1, arr.length)); }
-function gaussian(rand: () => number) {
-  // Box-Muller
-  let u = 0, v = 0;
-  while (u === 0) u = rand();
-  while (v === 0) v = rand();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+
+// Sample k of a dataset gets its own master seed (sample 0 keeps the dataset seed, so it matches a
+// single-sample run); explicit per-stream overrides are offset per sample instead, so replaying sample k
+// takes the stream seeds it realized as well (see replay_options).
+function sample_streams(seed: number | null, sample_index: number) {
+  const root = createSeedStreams(seed);
+  return sample_index === 0 ? root : createSeedStreams(deriveSeed(root.seed, `sample:${sample_index}`));
+}
+function stream_seed(streams: SeedStreams, name: string, override: number | null, sample_index: number) {
+  if (override == null) return streams.seedOf(name);
+  return (override + Math.imul(sample_index, 0x9e3779b9)) >>> 0;
+}
+// Maternal rate (bpm) at time t (s)
+function maternal_rate(mhr: number, drift: MhrDrift | null, fhr: number, total_sec: number) {
+  if (!drift) return (_t: number) => mhr;
+  const to = typeof drift.to === "number" ? drift.to : { fhr: 1, half_fhr: 0.5, double_fhr: 2 }[drift.to] * fhr;
+  const target = Math.min(220, Math.max(40, to));
+  const { start_sec = 0, duration_sec = Math.max(1e-3, total_sec - start_sec) } = drift;
+  return (t: number) => mhr + (target - mhr) * Math.min(1, Math.max(0, (t - start_sec) / duration_sec));
+}
+
+// Merges consecutive windows won by the same heart; e_f/e_m are per-window energies of W samples
+const DOMINANCE_WINDOW_SEC = 3;
+function source_dominance(e_f: number[], e_m: number[], W: number, total_len: number): SourceDominance[] {
+  const out: SourceDominance[] = [];
+  let sum_f = 0, sum_m = 0;
+  for (let w = 0; w < e_f.length; w++) {
+    const last = out[out.length - 1];
+    // silent windows (no heart sound from either) continue the current segment
+    const source = e_f[w] === e_m[w] && last ? last.source : e_f[w] >= e_m[w] ? "fetal" : "maternal";
+    if (!last || last.source !== source) {
+      out.push({ source, start: w * W, end: 0, ratio_db: 0 });
+      sum_f = sum_m = 0;
+    }
+    sum_f += e_f[w];
+    sum_m += e_m[w];
+    const seg = out[out.length - 1];
+    seg.end = w === e_f.length - 1 ? total_len : (w + 1) * W;
+    seg.ratio_db = 10 * Math.log10((sum_f + 1e-20) / (sum_m + 1e-20));
+  }
+  return out;
+}
+
+// White gaussian noise with exactly the given RMS
+function gaussian_noise(n: number, rand: RNG, target_rms: number) {
+  const out = new Array<number>(n);
+  for (let i = 0; i < n; i++) out[i] = gaussian(rand);
+  const scale = target_rms / (rms(out) || 1);
+  for (let i = 0; i < n; i++) out[i] *= scale;
+  return out;
 }
 
 // -----------------------------
 // Main simulator
 // -----------------------------
+export function simulateFpcgSamples(opts: SimOptions = {}): SimOutput[] {
+  const num_samples = Math.max(1, Math.floor(opts.num_samples ?? 1));
+  // resolve a random master seed once so the whole dataset shares it
+  const seed = createSeedStreams(opts.seed).seed;
+  const out: SimOutput[] = [];
+  for (let k = 0; k < num_samples; k++) out.push(simulate_sample({ ...opts, seed }, k));
+  return out;
+}
+
+// Sample k of the dataset described by opts, for callers that keep one full-length recording in memory at
+// a time; opts.seed must be set for the samples to share a dataset
+export function simulateFpcgSample(opts: SimOptions, sample_index: number): SimOutput {
+  return simulate_sample(opts, sample_index);
+}
+
+// Single recording (sample 0 of the dataset described by opts)
 export function simulateFpcgDataset(opts: SimOptions = {}): SimOutput {
+  return simulate_sample(opts, 0);
+}
+
+// Options that regenerate one recording on its own: its master seed plus the stream seeds it realized,
+// which carry any per-stream override with its per-sample offset
+export function replay_options(opts: SimOptions, params: FpcgRealizedParams): SimOptions {
+  const { seed, beat_seed, movement_seed, uc_seed, twin } = params;
+  return {
+    ...opts, seed, beat_seed, movement_seed, uc_seed, num_samples: 1,
+    ...(opts.twin && twin && { twin: { ...opts.twin, beat_seed: twin.beat_seed } }),
+  };
+}
+
+function simulate_sample(input: SimOptions, sample_index: number): SimOutput {
+  const { gestational_age_weeks = null, rhythm = "sinus" } = input;
+  const opts: SimOptions = {
+    ...(gestational_age_weeks == null ? {} : gestational_age_defaults(gestational_age_weeks)),
+    ...rhythm_defaults(rhythm),
+    ...defined(input),
+  };
   const {
-    num_samples = 1,
     cycles_per_sample = 10,
+    duration_sec = null,
     fs = 1000,
     fhr = 140,
     mhr = 80,
+    mhr_drift = null,
+    maternal_s1_amp = 0.03, maternal_s2_amp = 0.02,
     snr_db = 10,
+    s1_amp = 0.8, s2_amp = 0.5,
+    s1_dur = 0.08, s2_dur = 0.05,
+    ssid_ms = 210 - 0.5 * fhr,
+    seed: master_seed = null,
+    beat_seed: beat_seed_base = null,
     r1 = 0.01, c1 = 1500, beta1 = 100, A1 = 1.0,
     r2 = 0.03, c2 = 1540, beta2 = 300, A2 = 0.8,
     movement_enabled = true,
@@ -269,7 +605,7 @@ export function simulateFpcgDataset(opts: SimOptions = {}): SimOutput {
     movement_duration_range = [0.12, 0.45] as [number, number],
     movement_band = [15, 200] as [number, number],
     movement_thump_prob = 0.35,
-    movement_seed = 2025,
+    movement_seed: movement_seed_base = null,
     uc_enabled = true,
     uc_rate_per_10min = 3.0,
     uc_duration_range = [12.0, 30.0] as [number, number],
@@ -277,117 +613,464 @@ export function simulateFpcgDataset(opts: SimOptions = {}): SimOutput {
     uc_attenuation = 0.4,
     uc_noise_band = [0.5, 20.0] as [number, number],
     uc_noise_intensity = 0.7,
-    uc_seed = 1234,
+    uc_seed: uc_seed_base = null,
+    toco_baseline_mmhg,
+    toco_amplitude_mmhg,
+    toco_noise_mmhg,
     rr_std_frac = 0.05,
+    fhr_model = "variable",
+    fhr_pattern = "normal",
+    fhr_baseline_wander_bpm = 3,
+    fhr_ltv_bpm = 10,
+    fhr_stv_ms = 3,
+    fhr_accel_rate_per_10min = 2,
+    fhr_accel_amplitude_bpm = 15,
+    fhr_accel_duration_range = [15, 40] as [number, number],
+    fhr_sinusoidal_amplitude_bpm = 10,
+    fhr_sinusoidal_cycles_per_min = 4,
+    decel_mode = "none",
+    decel_depth_bpm,
+    decel_lag_sec,
+    decel_probability,
+    ectopic_prob,
+    svt_rate_bpm,
+    escape_rate_bpm,
+    twin: twin_opts = null,
+    sensors = null,
+    maternal_heart_position = DEFAULT_MATERNAL_HEART,
+    sensor_noise_correlation = 0.5,
+    maternal_interference = null,
+    doppler: doppler_opts = null,
+    fecg: fecg_opts = null,
+    behavioral_states: behavior_opts = null,
+    tissue = null,
+    presentation = null,
+    fetal_back = "left",
+    sensor_position = { x: 0, y: 0 },
+    murmur: murmur_opts = null,
+    labor: labor_opts = null,
   } = opts;
 
-  // We only return first sample for UI usage
+  const streams = sample_streams(master_seed, sample_index);
+  const beat_seed = stream_seed(streams, "beats", beat_seed_base, sample_index);
+  const maternal_seed = streams.seedOf("maternal");
+  const noise_seed = streams.seedOf("noise");
+  const movement_seed = stream_seed(streams, "movement", movement_seed_base, sample_index);
+  const uc_seed = stream_seed(streams, "uc", uc_seed_base, sample_index);
+  const toco_seed = streams.seedOf("toco");
+  const interference_seed = streams.seedOf("interference");
+  const doppler_seed = streams.seedOf("doppler");
+  const fecg_seed = streams.seedOf("fecg");
+  const behavior_seed = streams.seedOf("behavior");
+  const murmur_seed = streams.seedOf("murmur");
+  const labor_seed = streams.seedOf("labor");
+
   // Build fetal heart beats to determine total duration
   const mean_rr = 60 / fhr; // seconds per beat
-  const rand = rngFactory(null);
-  const T: number[] = [];
-  for (let k = 0; k < cycles_per_sample; k++) {
-    const jitter = rr_std_frac * mean_rr * rand();
-    T.push(mean_rr + jitter);
-  }
+  const length = duration_sec == null ? { n_beats: cycles_per_sample } : { duration_sec };
+  // contraction timing comes first: decelerations follow each contraction
+  const rand_uc = seededRng(uc_seed);
+  const rand_labor = seededRng(labor_seed);
+  // stages are laid out over the expected length, the contractions run on to the horizon
+  const labor = labor_opts && generate_labor_plan(duration_sec ?? (cycles_per_sample * 60) / fhr, fs, rand_labor, labor_opts, fhr_horizon_sec(length, fhr));
+  const uc_on = uc_enabled || !!labor;
+  const uc_events_all: UcEvent[] = labor
+    ? labor.contractions.map(({ start, end, peak, intensity }) => ({ start, end, peak, intensity }))
+    : uc_enabled
+      ? generate_uc_events(fhr_horizon_sec(length, fhr), fs, rand_uc, { rate_per_10min: uc_rate_per_10min, duration_range: uc_duration_range, rise_fall_frac: uc_rise_fall_frac })
+      : [];
+
+  const decels = (decel_mode !== "none" || labor) && uc_events_all.length
+    ? {
+      mode: decel_mode === "none" ? "early" as const : decel_mode, modes: labor?.contractions.map((c) => c.decel),
+      uc_events: uc_events_all, depth_bpm: decel_depth_bpm, lag_sec: decel_lag_sec, probability: decel_probability,
+    }
+    : undefined;
+  // behavioral states likewise: they set the FHR process and the movements together
+  const states_all = behavior_opts
+    ? generate_behavioral_states(fhr_horizon_sec(length, fhr), fs, seededRng(behavior_seed), behavior_opts)
+    : null;
+  const state_profiles = states_all && states_all.map((g) => ({ ...g, ...behavioral_state_profile(g.state, behavior_opts) }));
+  const rand = seededRng(beat_seed);
+  const rhythm_opts: RhythmOptions = { ectopic_prob, svt_rate_bpm, escape_rate_bpm };
+  const { T, beat_types, fhr_curve, accelerations, decelerations } = fetal_rhythm(fs, rand, length, fhr_model, rr_std_frac, rhythm, rhythm_opts, {
+    baseline: fhr, pattern: fhr_pattern, baseline_wander_bpm: fhr_baseline_wander_bpm, ltv_bpm: fhr_ltv_bpm, stv_ms: fhr_stv_ms,
+    accel_rate_per_10min: fhr_accel_rate_per_10min, accel_amplitude_bpm: fhr_accel_amplitude_bpm, accel_duration_range: fhr_accel_duration_range,
+    sinusoidal_amplitude_bpm: fhr_sinusoidal_amplitude_bpm, sinusoidal_cycles_per_min: fhr_sinusoidal_cycles_per_min,
+    decelerations: decels, segments: state_profiles ?? undefined,
+  });
   let total_duration = T.reduce((s, v) => s + v, 0) + 0.5;
   const nSamples = Math.max(1, Math.floor(fs * total_duration));
   const t = linspace(0, total_duration, nSamples);
-  const signal_f = new Array<number>(nSamples).fill(0);
   // fetal heart S1/S2
+  const fetal = render_fetal_beats(T, nSamples, fs, rand, { fhr, s1_amp, s2_amp, s1_dur, s2_dur, ssid_ms });
+  const murmur = murmur_opts && render_fetal_murmur(nSamples, fs, fetal.s1_src, fetal.s2_src, s1_amp, seededRng(murmur_seed), murmur_opts);
+  if (murmur) for (let i = 0; i < nSamples; i++) fetal.signal[i] += murmur.signal[i];
   let idx = 0;
-  const SSID_sec = (210 - 0.5 * fhr) / 1000;
-  for (const rr of T) {
-    const beat_len = Math.floor(rr * fs);
-    const amp_s1 = 0.8 + 0.08 * gaussian(rand);
-    const amp_s2 = 0.5 + 0.08 * gaussian(rand);
-    const freq_s1 = 50 + 2 * gaussian(rand);
-    const freq_s2 = 60 + 2 * gaussian(rand);
-    const dur_s1 = Math.max(0.02, 0.08 + 0.01 * gaussian(rand));
-    const dur_s2 = Math.max(0.02, 0.05 + 0.01 * gaussian(rand));
-    const SSID = Math.max(0.02, SSID_sec + 0.01 * gaussian(rand));
-    const { signal: s1 } = generate_heart_sound(freq_s1, dur_s1, fs, amp_s1);
-    const { signal: s2 } = generate_heart_sound(freq_s2, dur_s2, fs, amp_s2);
-    const s1_start = idx;
-    const s2_start = idx + Math.floor(SSID * fs);
-    for (let i = 0; i < s1.length && s1_start + i < signal_f.length; i++) signal_f[s1_start + i] += s1[i];
-    for (let i = 0; i < s2.length && s2_start + i < signal_f.length; i++) signal_f[s2_start + i] += s2[i];
-    idx += beat_len;
-  }
-  // maternal heart
-  const mSSID_sec = (0.2 * (60000 / mhr) - 160) / 1000;
+  // maternal heart: at least one beat per fetal beat, and enough to fill the recording
+  const mhr_at = maternal_rate(mhr, mhr_drift, fhr, total_duration);
+  const rand_m = seededRng(maternal_seed);
   const Tm: number[] = [];
-  for (let k = 0; k < T.length; k++) Tm.push(60 / mhr + rr_std_frac * mean_rr * rand());
+  for (let k = 0, tm = 0; k < T.length || tm < total_duration; k++) {
+    Tm.push(60 / mhr_at(tm) + rr_std_frac * mean_rr * rand_m());
+    tm += Tm[k];
+  }
   const signal_m = new Array<number>(nSamples).fill(0);
+  const maternal_s1: Array<[number, number]> = [];
+  const maternal_s2: Array<[number, number]> = [];
   idx = 0;
   for (const rr of Tm) {
     const beat_len = Math.floor(rr * fs);
-    const amp_ms1 = 0.03 + 0.02 * gaussian(rand);
-    const amp_ms2 = 0.02 + 0.02 * gaussian(rand);
-    const freq_ms1 = 15 + 2 * gaussian(rand);
-    const freq_ms2 = 20 + 2 * gaussian(rand);
-    const dur_ms1 = Math.max(0.02, 0.08 + 0.01 * gaussian(rand));
-    const dur_ms2 = Math.max(0.02, 0.05 + 0.01 * gaussian(rand));
-    const mSSID = Math.max(0.01, mSSID_sec + 0.005 * gaussian(rand));
+    const amp_ms1 = maternal_s1_amp + 0.02 * gaussian(rand_m);
+    const amp_ms2 = maternal_s2_amp + 0.02 * gaussian(rand_m);
+    const freq_ms1 = 15 + 2 * gaussian(rand_m);
+    const freq_ms2 = 20 + 2 * gaussian(rand_m);
+    const dur_ms1 = Math.max(0.02, 0.08 + 0.01 * gaussian(rand_m));
+    const dur_ms2 = Math.max(0.02, 0.05 + 0.01 * gaussian(rand_m));
+    const mSSID_sec = (0.2 * (60000 / mhr_at(idx / fs)) - 160) / 1000;
+    const mSSID = Math.max(0.01, mSSID_sec + 0.005 * gaussian(rand_m));
     const { signal: ms1 } = generate_heart_sound(freq_ms1, dur_ms1, fs, amp_ms1);
     const { signal: ms2 } = generate_heart_sound(freq_ms2, dur_ms2, fs, amp_ms2);
     const ms1_start = idx + Math.floor(0.3 * fs);
     const ms2_start = ms1_start + Math.floor(mSSID * fs);
     for (let i = 0; i < ms1.length && ms1_start + i < signal_m.length; i++) signal_m[ms1_start + i] += ms1[i];
     for (let i = 0; i < ms2.length && ms2_start + i < signal_m.length; i++) signal_m[ms2_start + i] += ms2[i];
+    push_interval(maternal_s1, ms1_start, ms1_start + ms1.length, nSamples);
+    push_interval(maternal_s2, ms2_start, ms2_start + ms2.length, nSamples);
     idx += beat_len;
   }
 
-  // Propagation model
-  const h1 = expo_conv_kernel(r1, c1, fs, beta1, A1);
-  const h2 = expo_conv_kernel(r2, c2, fs, beta2, A2);
-  const h_total = convolve(h1, h2);
-  const h_norm = h_total.reduce((s, v) => s + v, 0);
-  for (let i = 0; i < h_total.length; i++) h_total[i] = h_total[i] / (h_norm || 1);
-  const signal_f_prop = convolve(signal_f, h_total).slice(0, signal_f.length);
-
-  // UC
-  let uc_env = new Array<number>(nSamples).fill(0);
-  let uc_noise = new Array<number>(nSamples).fill(0);
-  let uc_events: UcEvent[] = [];
-  if (uc_enabled) {
-    const res = generate_uc_envelope(nSamples, fs, { rate_per_10min: uc_rate_per_10min, duration_range: uc_duration_range, rise_fall_frac: uc_rise_fall_frac, attenuation: uc_attenuation, noise_band: uc_noise_band, noise_intensity: uc_noise_intensity, seed: uc_seed });
-    uc_env = res.uc_env; uc_noise = res.uc_noise; uc_events = res.uc_events;
+  // Propagation model, from the fetal heart to the main sensor
+  const layers = tissue && tissue_layers(tissue, r1);
+  const heart_depth = layers ? layers_depth(layers) : r1 + r2;
+  const heart: SourcePosition = { ...(presentation ? fetal_heart_offset(presentation, fetal_back) : { x: 0, y: 0 }), depth: heart_depth };
+  const main_path = fetal_path(sensor_position, heart, r1, r2);
+  const { signal: signal_f_prop, fetal_s1, fetal_s2, delay: fetal_delay } = propagate_fetal(fetal, fs, slant_path({ r1, c1, beta1, A1, r2, c2, beta2, A2, layers }, main_path));
+  // the layered path carries its own spreading loss
+  if (!layers && main_path.gain !== 1) for (let i = 0; i < nSamples; i++) signal_f_prop[i] *= main_path.gain;
+
+  // Second fetus: own rhythm over the same recording length, own propagation path
+  let twin: FetalSourceMeta | null = null;
+  let twin_params: FpcgRealizedParams["twin"] = null;
+  let twin_src: FetalSource | null = null;
+  let twin_heart: SourcePosition;
+  let twin_path: PropagationPath;
+  if (twin_opts) {
+    const tw = {
+      fhr: fhr + 10, fhr_pattern, fhr_baseline_wander_bpm, fhr_ltv_bpm, fhr_stv_ms, fhr_accel_rate_per_10min, fhr_accel_amplitude_bpm,
+      s1_amp, s2_amp, s1_dur, s2_dur, r1: r1 + 0.02, c1, beta1, A1, r2, c2, beta2, A2,
+      ...defined(twin_opts),
+    };
+    const tw_ssid_ms = twin_opts.ssid_ms ?? ssid_ms + 0.5 * (fhr - tw.fhr);
+    const tw_seed = stream_seed(streams, "twin_beats", twin_opts.beat_seed ?? null, sample_index);
+    const rand_tw = seededRng(tw_seed);
+    const tw_rhythm = twin_opts.rhythm ?? "sinus";
+    const beats = fetal_rhythm(fs, rand_tw, { duration_sec: nSamples / fs }, fhr_model, rr_std_frac, tw_rhythm, rhythm_opts, {
+      baseline: tw.fhr, pattern: tw.fhr_pattern, baseline_wander_bpm: tw.fhr_baseline_wander_bpm, ltv_bpm: tw.fhr_ltv_bpm, stv_ms: tw.fhr_stv_ms,
+      accel_rate_per_10min: tw.fhr_accel_rate_per_10min, accel_amplitude_bpm: tw.fhr_accel_amplitude_bpm, accel_duration_range: fhr_accel_duration_range,
+      sinusoidal_amplitude_bpm: fhr_sinusoidal_amplitude_bpm, sinusoidal_cycles_per_min: fhr_sinusoidal_cycles_per_min,
+      decelerations: decels,
+    });
+    twin_src = render_fetal_beats(beats.T, nSamples, fs, rand_tw, { ...tw, ssid_ms: tw_ssid_ms });
+    const tw_layers = tissue && tissue_layers(tissue, tw.r1);
+    const offset = twin_opts.position ?? { x: 0, y: 0 };
+    twin_heart = { x: heart.x + offset.x, y: heart.y + offset.y, depth: tw_layers ? layers_depth(tw_layers) : tw.r1 + tw.r2 };
+    twin_path = { ...tw, layers: tw_layers };
+    const tp = fetal_path(sensor_position, twin_heart, tw.r1, tw.r2);
+    const prop = propagate_fetal(twin_src, fs, slant_path(twin_path, tp));
+    const tw_gain = tw_layers ? 1 : tp.gain;
+    for (let i = 0; i < nSamples; i++) signal_f_prop[i] += tw_gain * prop.signal[i];
+    twin = {
+      fetal_s1: prop.fetal_s1, fetal_s2: prop.fetal_s2, T: beats.T, beat_types: beats.beat_types, fhr_curve: beats.fhr_curve,
+      accelerations: beats.accelerations, decelerations: beats.decelerations,
+    };
+    twin_params = { fhr: tw.fhr, rhythm: tw_rhythm, ssid_ms: tw_ssid_ms, r1: tw.r1, r2: tw.r2, beat_seed: tw_seed };
+  }
+
+  // UC; disabled sources stay null rather than zero-filled arrays
+  let uc_env: number[];
+  let uc_noise: number[] | null = null;
+  const uc_events: UcEvent[] = uc_events_all
+    .filter((e) => e.start < nSamples)
+    .map((e) => ({ ...e, end: Math.min(e.end, nSamples), peak: Math.min(e.peak, nSamples - 1) }));
+  if (uc_on) {
+    const res = render_uc_envelope(uc_events_all, nSamples, fs, rand_uc, { rise_fall_frac: uc_rise_fall_frac, noise_band: uc_noise_band, noise_intensity: uc_noise_intensity });
+    uc_env = res.uc_env; uc_noise = res.uc_noise;
+  } else {
+    uc_env = new Array<number>(nSamples).fill(0);
   }
-  const signal_f_env = signal_f_prop.map((v, i) => v * (1.0 - (uc_enabled ? uc_attenuation * uc_env[i] : 0)));
+  const uc_gain = uc_noise ? uc_env.map((v) => 1.0 - uc_attenuation * v) : null;
 
   // Movement
-  let movement = new Array<number>(nSamples).fill(0);
+  let movement: number[] | null = null;
   let mv_events: Array<[number, number]> = [];
   if (movement_enabled) {
-    const mv = generate_movement_artifacts(nSamples, fs, { rate_per_min: movement_rate_per_min, duration_range: movement_duration_range, band: movement_band, intensity: movement_intensity, thump_prob: movement_thump_prob, seed: movement_seed });
+    const mv = generate_movement_artifacts(nSamples, fs, {
+      rate_per_min: movement_rate_per_min, duration_range: movement_duration_range, band: movement_band, intensity: movement_intensity, thump_prob: movement_thump_prob, seed: movement_seed,
+      segments: state_profiles && state_profiles.map((g) => ({ start: g.start, end: g.end, rate_per_min: g.movement_rate_per_min, intensity: g.movement_intensity })),
+    });
     movement = mv.movement; mv_events = mv.events;
   }
 
-  // Combine + AWGN for SNR
-  const signal_base = new Array<number>(nSamples);
-  for (let i = 0; i < nSamples; i++) signal_base[i] = signal_f_env[i] + signal_m[i] + uc_noise[i] + movement[i];
-  const signal_r = rms(signal_base);
+  // Maternal interference: additive sources, and respiration scaling everything the sensor picks up
+  const interference = maternal_interference
+    ? generate_maternal_interference(nSamples, fs, seededRng(interference_seed), maternal_s1.map(([on]) => on), maternal_interference)
+    : null;
+
+  // Labor: the mother's pushes reach every sensor directly
+  const labor_art = labor && render_labor_artifacts(nSamples, fs, rand_labor, labor.contractions, labor_opts);
+
+  // Combine + AWGN for SNR, accumulated in place over the propagated fetal signal
+  const fetal_r = rms(signal_f_prop);
+  const W = Math.max(1, Math.round(DOMINANCE_WINDOW_SEC * fs));
+  // a trailing partial window is folded into the last full one
+  const e_f = new Array<number>(Math.max(1, Math.floor(nSamples / W))).fill(0);
+  const e_m = new Array<number>(e_f.length).fill(0);
+  const y = signal_f_prop;
+  for (let i = 0; i < nSamples; i++) {
+    const f = uc_gain ? y[i] * uc_gain[i] : y[i];
+    const w = Math.min(e_f.length - 1, Math.floor(i / W));
+    e_f[w] += f * f;
+    e_m[w] += signal_m[i] * signal_m[i];
+    let v = (uc_noise ? f + uc_noise[i] : f) + signal_m[i];
+    if (movement) v += main_path.gain * movement[i];
+    if (labor_art) v += labor_art.signal[i];
+    y[i] = interference ? (v + interference.signal[i]) * interference.coupling[i] : v;
+  }
+  // with tissue layers the noise floor follows the fetal source level, so tissue loss costs SNR
+  const signal_r = layers ? rms(fetal.signal) : rms(y);
   const noise_r = signal_r / Math.pow(10, snr_db / 20);
-  const noise = new Array<number>(nSamples).fill(0).map(() => gaussian(rand));
-  const noise_norm = rms(noise) || 1;
-  for (let i = 0; i < nSamples; i++) noise[i] = (noise[i] / noise_norm) * noise_r;
-  const signal_skin_total = signal_base.map((v, i) => v + noise[i]);
+  const noise = gaussian_noise(nSamples, seededRng(noise_seed), noise_r);
+  for (let i = 0; i < nSamples; i++) y[i] += noise[i];
+
+  // Sensor array: every channel re-propagates the same sources; sensor noise is partly shared
+  const channels: SensorChannel[] = [];
+  const m_ref = source_distance(sensor_position, maternal_heart_position);
+  (sensors ?? []).forEach((sensor, c) => {
+    const fp = fetal_path(sensor, heart, r1, r2);
+    const f = propagate_fetal(fetal, fs, slant_path({ r1, c1, beta1, A1, r2, c2, beta2, A2, layers }, fp));
+    const sig_f = f.signal;
+    if (!layers) for (let i = 0; i < nSamples; i++) sig_f[i] *= fp.gain;
+    let ch_twin: SensorChannelMeta["twin"] = null;
+    if (twin_src) {
+      const tp = fetal_path(sensor, twin_heart, twin_path.r1, twin_path.r2);
+      const p = propagate_fetal(twin_src, fs, slant_path(twin_path, tp));
+      const tw_gain = twin_path.layers ? 1 : tp.gain;
+      for (let i = 0; i < nSamples; i++) sig_f[i] += tw_gain * p.signal[i];
+      ch_twin = { r1: tp.r1, r2: tp.r2, delay: p.delay, gain: tp.gain, fetal_s1: p.fetal_s1, fetal_s2: p.fetal_s2 };
+    }
+    const d_m = source_distance(sensor, maternal_heart_position);
+    const m_delay = Math.round(((d_m - m_ref) / c2) * fs);
+    const m_gain = m_ref / d_m;
+    const rand_c = seededRng(streams.seedOf(`sensor_noise:${c}`));
+    const own = gaussian_noise(nSamples, rand_c, noise_r * Math.sqrt(1 - sensor_noise_correlation));
+    const shared = Math.sqrt(sensor_noise_correlation);
+    const y_c = sig_f;
+    for (let i = 0; i < nSamples; i++) {
+      const im = i - m_delay;
+      const m = im >= 0 && im < nSamples ? m_gain * signal_m[im] : 0;
+      let v = (uc_gain ? y_c[i] * uc_gain[i] + uc_noise[i] : y_c[i]) + m;
+      // movement originates at the fetus and spreads like the fetal sounds
+      if (movement) v += fp.gain * movement[i];
+      if (labor_art) v += labor_art.signal[i];
+      if (interference) v = (v + interference.signal[i]) * interference.coupling[i];
+      y_c[i] = v + shared * noise[i] + own[i];
+    }
+    channels.push({
+      y: y_c,
+      meta: {
+        sensor, r1: fp.r1, r2: fp.r2, fetal_delay: f.delay, fetal_gain: fp.gain, maternal_delay: m_delay, maternal_gain: m_gain,
+        fetal_s1: f.fetal_s1, fetal_s2: f.fetal_s2,
+        maternal_s1: shift_intervals(maternal_s1, m_delay, nSamples), maternal_s2: shift_intervals(maternal_s2, m_delay, nSamples),
+        twin: ch_twin,
+      },
+    });
+  });
+
+  const movement_mask = new Array<number>(nSamples).fill(0);
+  for (const [s_idx, e_idx] of mv_events) for (let i = s_idx; i < e_idx; i++) movement_mask[i] = 1;
+  const uc_mask = uc_env.map((v) => (v > 0 ? 1 : 0));
+
+  // CTG reference: FHR from the S1 arrivals, toco from the same UC envelope
+  const ctg = build_ctg(fetal_s1.map(([on]) => on), uc_env, uc_events, fs, seededRng(toco_seed), {
+    baseline_mmhg: toco_baseline_mmhg, amplitude_mmhg: toco_amplitude_mmhg, noise_mmhg: toco_noise_mmhg,
+  }, twin && twin.fetal_s1.map(([on]) => on), maternal_s1.map(([on]) => on));
+
+  // Doppler: valve and wall motion timed by the fetal beats at the source (no acoustic delay)
+  const doppler = doppler_opts
+    ? render_doppler(fetal.s1_src.map(([on]) => on / fs), fetal.s2_src.map(([on]) => on / fs), nSamples / fs, seededRng(doppler_seed), {
+      depth_cm: 100 * heart_depth, ...doppler_opts,
+    })
+    : null;
 
-  return { t, y: signal_skin_total, meta: { movement_events: mv_events, uc_events } };
+  // Abdominal ECG: fetal R-peaks precede the S1 source times by the electromechanical delay
+  const fecg = fecg_opts
+    ? render_abdominal_ecg(nSamples, fs, fetal.s1_src.map(([on]) => on), maternal_s1.map(([on]) => on), seededRng(fecg_seed), fecg_opts)
+    : null;
+
+  return {
+    t,
+    y,
+    ctg,
+    channels,
+    doppler,
+    fecg,
+    meta: {
+      fs, movement_events: mv_events, uc_events, fetal_s1, fetal_s2, maternal_s1, maternal_s2, T, Tm, beat_types,
+      fhr_curve, fhr_curve_fs: FHR_CURVE_FS, accelerations, decelerations,
+      dominance: source_dominance(e_f, e_m, W, nSamples),
+      murmurs: (murmur?.events ?? []).filter((e) => e.start + fetal_delay < nSamples)
+        .map((e) => ({ ...e, start: e.start + fetal_delay, end: Math.min(nSamples, e.end + fetal_delay) })),
+      movement_mask, uc_mask,
+      maternal_events: interference?.events ?? [], breaths: interference?.breaths ?? [],
+      behavioral_states: (states_all ?? []).filter((g) => g.start < nSamples).map((g) => ({ ...g, end: Math.min(g.end, nSamples) })),
+      labor_stages: (labor?.stages ?? []).filter((g) => g.start < nSamples).map((g, k, a) => ({ ...g, end: k === a.length - 1 ? nSamples : g.end })),
+      labor_events: labor_art?.events ?? [],
+      placement: {
+        presentation, fetal_back, heart, sensor: sensor_position,
+        distance: source_distance(sensor_position, heart), gain: main_path.gain, delay: fetal_delay,
+      },
+      tissue: layers && { layers, depth: heart_depth, delay: fetal_delay, fetal_snr_db: 20 * Math.log10(fetal_r / noise_r) },
+      twin,
+      params: {
+        sample_index, seed: streams.seed, cycles_per_sample, duration_sec, gestational_age_weeks,
+        fhr, s1_amp, s2_amp, s1_dur, s2_dur, ssid_ms, r1, r2, fhr_model, rhythm, fhr_pattern, decel_mode, mhr, snr_db, rr_std_frac,
+        beat_seed, maternal_seed, noise_seed, movement_seed, uc_seed, toco_seed, interference_seed, doppler_seed, fecg_seed, behavior_seed, murmur_seed, labor_seed, twin: twin_params,
+      },
+    },
+  };
 }
 
-// Simple convolution
-function convolve(a: number[], b: number[]) {
-  const n = a.length, m = b.length;
-  const out = new Array<number>(n + m - 1).fill(0);
+type FetalRhythm = {
+  T: number[];
+  beat_types: BeatType[];
+  fhr_curve: number[];
+  accelerations: FhrAcceleration[];
+  decelerations: FhrDeceleration[];
+};
+
+// RR series of one fetus with beat labels, its FHR curve and labeled FHR events.
+// Ectopy and AV block act on the sinus train; SVT and complete block replace it.
+function fetal_rhythm(
+  fs: number, rand: RNG, length: FhrLength, model: FhrModel, rr_std_frac: number,
+  rhythm: FetalRhythmType, rhythm_opts: RhythmOptions, opts: FhrOptions,
+): FetalRhythm {
+  if (is_independent_rhythm(rhythm)) {
+    const label: BeatType = rhythm === "svt" ? "svt" : "av_block_complete";
+    const rate = rhythm === "svt" ? rhythm_opts.svt_rate_bpm ?? 240 : rhythm_opts.escape_rate_bpm ?? 55;
+    const T = pacemaker_beats(rate, rand, length);
+    return { T, beat_types: T.map(() => label), fhr_curve: fhr_curve_from_rr(T), accelerations: [], decelerations: [] };
+  }
+  // only every second sinus beat is heard in 2:1 block
+  const sinus_length = rhythm === "av_block_2to1" && length.n_beats != null ? { n_beats: 2 * length.n_beats } : length;
+  let T_sinus: number[];
+  let fhr_curve: number[];
+  let accelerations: FhrAcceleration[] = [];
+  let decelerations: FhrDeceleration[] = [];
+  if (model === "jitter") {
+    const mean_rr = 60 / opts.baseline;
+    const n_beats = sinus_length.n_beats ?? Math.ceil(sinus_length.duration_sec / mean_rr);
+    T_sinus = [];
+    for (let k = 0; k < n_beats; k++) T_sinus.push(mean_rr + rr_std_frac * mean_rr * rand());
+    fhr_curve = fhr_curve_from_rr(T_sinus);
+  } else {
+    const proc = generate_fhr_process(fs, rand, sinus_length, opts);
+    T_sinus = proc.T; fhr_curve = proc.curve; accelerations = proc.accelerations; decelerations = proc.decelerations;
+  }
+  const { T, beat_types } = conduct(T_sinus, rhythm, rand, rhythm_opts);
+  if (rhythm === "av_block_2to1") fhr_curve = fhr_curve.map((v) => v / 2);
+  return { T, beat_types, fhr_curve, accelerations, decelerations };
+}
+
+type FetalSoundOptions = { fhr: number; s1_amp: number; s2_amp: number; s1_dur: number; s2_dur: number; ssid_ms: number };
+type FetalSource = { signal: number[]; s1_src: Array<[number, number]>; s2_src: Array<[number, number]> };
+
+// S1/S2 at the fetal heart, one pair per RR interval; intervals are source positions (before propagation)
+function render_fetal_beats(T: number[], nSamples: number, fs: number, rand: RNG, o: FetalSoundOptions): FetalSource {
+  const signal = new Array<number>(nSamples).fill(0);
+  const s1_src: Array<[number, number]> = [];
+  const s2_src: Array<[number, number]> = [];
+  let idx = 0;
+  for (const rr of T) {
+    const beat_len = Math.floor(rr * fs);
+    const amp_s1 = o.s1_amp * (1 + 0.1 * gaussian(rand));
+    const amp_s2 = o.s2_amp * (1 + 0.16 * gaussian(rand));
+    const freq_s1 = 50 + 2 * gaussian(rand);
+    const freq_s2 = 60 + 2 * gaussian(rand);
+    const dur_s1 = Math.max(0.02, o.s1_dur + 0.01 * gaussian(rand));
+    const dur_s2 = Math.max(0.02, o.s2_dur + 0.01 * gaussian(rand));
+    // systolic interval shortens with the instantaneous rate of this beat (-0.5 ms/bpm)
+    const SSID_sec = (o.ssid_ms + 0.5 * (o.fhr - 60 / rr)) / 1000;
+    const SSID = Math.max(0.02, SSID_sec + 0.01 * gaussian(rand));
+    const { signal: s1 } = generate_heart_sound(freq_s1, dur_s1, fs, amp_s1);
+    const { signal: s2 } = generate_heart_sound(freq_s2, dur_s2, fs, amp_s2);
+    const s1_start = idx;
+    const s2_start = idx + Math.floor(SSID * fs);
+    for (let i = 0; i < s1.length && s1_start + i < signal.length; i++) signal[s1_start + i] += s1[i];
+    for (let i = 0; i < s2.length && s2_start + i < signal.length; i++) signal[s2_start + i] += s2[i];
+    s1_src.push([s1_start, s1_start + s1.length]);
+    s2_src.push([s2_start, s2_start + s2.length]);
+    idx += beat_len;
+  }
+  return { signal, s1_src, s2_src };
+}
+
+// Two-exponential r/c/beta/A model, or the layered tissue stack when `layers` is set
+type PropagationPath = {
+  r1: number; c1: number; beta1: number; A1: number; r2: number; c2: number; beta2: number; A2: number;
+  layers?: TissueLayer[] | null;
+};
+
+// Two-layer propagation to the sensor; S1/S2 labels move by the direct-path delay and are clipped
+function propagate_fetal(src: FetalSource, fs: number, p: PropagationPath) {
+  if (p.layers) return propagate_layers(src, fs, p.layers);
+  const h1 = expo_conv_kernel(p.r1, p.c1, fs, p.beta1, p.A1);
+  const h2 = expo_conv_kernel(p.r2, p.c2, fs, p.beta2, p.A2);
+  const h_total = convolve(h1, h2);
+  const h_norm = h_total.reduce((s, v) => s + v, 0);
+  for (let i = 0; i < h_total.length; i++) h_total[i] = h_total[i] / (h_norm || 1);
+  const n = src.signal.length;
+  const signal = convolve(src.signal, h_total, n);
+  // onset of h_total: the direct-path delay of both layers
+  const prop_delay = Math.round((p.r1 / p.c1) * fs) + Math.round((p.r2 / p.c2) * fs);
+  return { signal, fetal_s1: shift_intervals(src.s1_src, prop_delay, n), fetal_s2: shift_intervals(src.s2_src, prop_delay, n), delay: prop_delay };
+}
+
+// Same path along a slanted direction (see fetal_path): every layer is crossed longer by the same factor
+function slant_path(p: PropagationPath, fp: { r1: number; r2: number; slant: number }): PropagationPath {
+  return { ...p, r1: fp.r1, r2: fp.r2, layers: p.layers && scale_layers(p.layers, fp.slant) };
+}
+
+// Zero-phase tissue response, then the summed travel time of the layers
+function propagate_layers(src: FetalSource, fs: number, layers: TissueLayer[]) {
+  const { h, center } = tissue_kernel(layers, fs);
+  const delay = Math.round(tissue_delay_sec(layers) * fs);
+  const n = src.signal.length;
+  const full = convolve(src.signal, h, n + center);
+  const signal = new Array<number>(n);
   for (let i = 0; i < n; i++) {
-    const ai = a[i];
-    for (let j = 0; j < m; j++) out[i + j] += ai * b[j];
+    const j = i + center - delay;
+    signal[i] = j >= 0 ? full[j] : 0;
   }
+  return { signal, fetal_s1: shift_intervals(src.s1_src, delay, n), fetal_s2: shift_intervals(src.s2_src, delay, n), delay };
+}
+
+// Drops undefined entries so they do not mask preset defaults when spread
+function defined<T extends object>(o: T): Partial<T> {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function shift_intervals(src: Array<[number, number]>, delay: number, total_len: number) {
+  const out: Array<[number, number]> = [];
+  for (const [on, off] of src) if (off + delay > 0) push_interval(out, Math.max(0, on + delay), off + delay, total_len);
   return out;
 }
 
+function push_interval(out: Array<[number, number]>, onset: number, offset: number, total_len: number) {
+  if (onset >= total_len) return;
+  out.push([onset, Math.min(offset, total_len)]);
+}
+
 // Utility to resample signal to a fixed length using linear interpolation
 export function resampleToLength(xs: number[], ys: number[], targetLen: number) {
   if (ys.length === targetLen) return ys.slice();
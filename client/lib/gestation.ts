@@ -0,0 +1,39 @@
+// Gestational-age-aware fetal physiology presets for the fPCG simulator
+// Baseline FHR falls and heart-sound strength rises with gestation, while the fetal heart moves closer
+// to the abdominal wall as amniotic fluid shrinks relative to the fetus.
+
+export const GA_RANGE: [number, number] = [24, 41];
+
+export type GestationalDefaults = {
+  fhr: number; // baseline bpm
+  s1_amp: number;
+  s2_amp: number;
+  s1_dur: number; // seconds
+  s2_dur: number;
+  ssid_ms: number; // S1-S2 interval at the baseline rate
+  r1: number; // intrauterine path (m)
+  r2: number; // maternal abdominal wall path (m)
+};
+
+// Anchor weeks; values in between are interpolated linearly
+const TABLE: Array<[number, GestationalDefaults]> = [
+  [24, { fhr: 150, s1_amp: 0.3, s2_amp: 0.2, s1_dur: 0.06, s2_dur: 0.04, ssid_ms: 133, r1: 0.02, r2: 0.032 }],
+  [28, { fhr: 146, s1_amp: 0.45, s2_amp: 0.29, s1_dur: 0.066, s2_dur: 0.043, ssid_ms: 136, r1: 0.017, r2: 0.031 }],
+  [32, { fhr: 142, s1_amp: 0.6, s2_amp: 0.38, s1_dur: 0.072, s2_dur: 0.046, ssid_ms: 139, r1: 0.014, r2: 0.03 }],
+  [36, { fhr: 138, s1_amp: 0.75, s2_amp: 0.47, s1_dur: 0.078, s2_dur: 0.049, ssid_ms: 142, r1: 0.012, r2: 0.03 }],
+  [40, { fhr: 135, s1_amp: 0.85, s2_amp: 0.53, s1_dur: 0.082, s2_dur: 0.051, ssid_ms: 144, r1: 0.01, r2: 0.029 }],
+  [41, { fhr: 134, s1_amp: 0.87, s2_amp: 0.54, s1_dur: 0.083, s2_dur: 0.052, ssid_ms: 145, r1: 0.01, r2: 0.029 }],
+];
+
+// Weeks outside GA_RANGE are clamped to it
+export function gestational_age_defaults(weeks: number): GestationalDefaults {
+  const w = Math.min(GA_RANGE[1], Math.max(GA_RANGE[0], weeks));
+  let k = 0;
+  while (k < TABLE.length - 2 && TABLE[k + 1][0] < w) k++;
+  const [w0, a] = TABLE[k];
+  const [w1, b] = TABLE[k + 1];
+  const u = (w - w0) / (w1 - w0);
+  const out = {} as GestationalDefaults;
+  for (const key of Object.keys(a) as Array<keyof GestationalDefaults>) out[key] = a[key] + u * (b[key] - a[key]);
+  return out;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { generate_labor_plan, render_labor_artifacts } from "./labor";
+import { mulberry32 } from "./rng";
+
+const fs = 100;
+
+describe("generate_labor_plan", () => {
+  it("should lay the stages out in order and run the last one to the horizon", () => {
+    const { stages } = generate_labor_plan(3600, fs, mulberry32(1), {}, 4000);
+    expect(stages.map((g) => g.stage)).toEqual(["latent", "active", "second"]);
+    expect(stages[0].start).toBe(0);
+    for (let k = 1; k < stages.length; k++) expect(stages[k].start).toBe(stages[k - 1].end);
+    expect(stages[1].start).toBe(0.4 * 3600 * fs);
+    expect(stages[2].end).toBe(4000 * fs);
+  });
+
+  it("should make contractions more frequent and stronger from stage to stage", () => {
+    const { stages, contractions } = generate_labor_plan(3 * 3600, fs, mulberry32(2));
+    for (let k = 1; k < contractions.length; k++) expect(contractions[k].start).toBeGreaterThan(contractions[k - 1].end);
+    const per_stage = stages.map((g) => contractions.filter((c) => c.stage === g.stage));
+    const rate = per_stage.map((cs, k) => cs.length / (stages[k].end - stages[k].start));
+    const intensity = per_stage.map((cs) => cs.reduce((s, c) => s + c.intensity, 0) / cs.length);
+    expect(rate[1]).toBeGreaterThan(rate[0]);
+    expect(rate[2]).toBeGreaterThan(rate[1]);
+    expect(intensity[1]).toBeGreaterThan(intensity[0]);
+    expect(intensity[2]).toBeGreaterThan(intensity[1]);
+    expect(per_stage[2].every((c) => c.decel === "variable" || c.decel === "none")).toBe(true);
+  });
+});
+
+describe("render_labor_artifacts", () => {
+  it("should push only during second-stage contractions, framed by movement bursts", () => {
+    const fs = 1000;
+    const plan = generate_labor_plan(1200, fs, mulberry32(3), { stages: ["active", "second"] });
+    const n = 1200 * fs;
+    const { signal, events } = render_labor_artifacts(n, fs, mulberry32(4), plan.contractions);
+    const pushes = events.filter((e) => e.type === "push");
+    expect(pushes.length).toBeGreaterThan(0);
+    for (const p of pushes) {
+      const uc = plan.contractions[p.uc_index];
+      expect(uc.stage).toBe("second");
+      expect(p.start).toBeGreaterThan(uc.start);
+      expect(p.end).toBeLessThan(uc.end);
+      expect(events.some((e) => e.type === "movement" && e.start === p.start)).toBe(true);
+    }
+    const first = plan.stages[0];
+    for (let i = first.start; i < first.end; i += 97) expect(signal[i]).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+// Labor stages for the fPCG simulator
+// One continuous recording walks through the first stage of labor (latent, then active phase) into the
+// second stage. Contractions grow more frequent, longer and stronger along the way, each one can draw an
+// FHR deceleration (early from head compression in the first stage, variable from cord compression while
+// pushing), and in the second stage the mother bears down during each contraction: every push is a
+// Valsalva hold (abdominal-wall muscle noise and a slow pressure swell under the sensor) framed by large
+// body-movement bursts as she braces and lets go.
+
+import type { DecelType } from "./fhr";
+import { simple_bandpass } from "./dsp";
+import { gaussian, type RNG } from "./rng";
+
+export type LaborStage = "latent" | "active" | "second"; // latent and active are the phases of the first stage
+
+// Sample indices at fs, [start, end) and clipped to the recording, like UcEvent
+export type LaborStageInterval = { stage: LaborStage; start: number; end: number };
+
+// intensity is the envelope peak (1 = the strongest contraction); decel is the FHR response it draws
+export type LaborContraction = { start: number; end: number; peak: number; intensity: number; stage: LaborStage; decel: DecelType | "none" };
+
+// uc_index points into the contraction list (meta.uc_events)
+export type LaborEvent = { type: "push" | "movement"; start: number; end: number; uc_index: number };
+
+// [at stage start, at stage end] pairs ramp linearly across the stage
+export type LaborStageProfile = {
+  uc_rate_per_10min: [number, number];
+  uc_intensity: [number, number];
+  uc_duration_range: [number, number]; // seconds
+  decel_mode: DecelType | "none";
+  decel_probability: number;
+  pushing: boolean;
+};
+
+export const LABOR_STAGE_PROFILES: Record<LaborStage, LaborStageProfile> = {
+  latent: { uc_rate_per_10min: [1.5, 3], uc_intensity: [0.4, 0.6], uc_duration_range: [30, 45], decel_mode: "early", decel_probability: 0.2, pushing: false },
+  active: { uc_rate_per_10min: [3, 4.5], uc_intensity: [0.6, 0.9], uc_duration_range: [45, 70], decel_mode: "early", decel_probability: 0.5, pushing: false },
+  second: { uc_rate_per_10min: [4.5, 5], uc_intensity: [0.9, 1], uc_duration_range: [60, 90], decel_mode: "variable", decel_probability: 0.7, pushing: true },
+};
+
+// share of the recording each stage takes when all three are present
+const STAGE_SHARE: Record<LaborStage, number> = { latent: 0.4, active: 0.35, second: 0.25 };
+const MIN_REST_SEC = 20; // uterine relaxation between contractions
+
+export type LaborOptions = {
+  stages?: LaborStage[]; // in recording order
+  stage_share?: Partial<Record<LaborStage, number>>; // relative, normalized over `stages`
+  profiles?: Partial<Record<LaborStage, Partial<LaborStageProfile>>>;
+  pushes_per_contraction?: [number, number];
+  push_intensity?: number; // Valsalva muscle noise and pressure swell
+  push_movement_intensity?: number; // bracing/release bursts
+};
+
+export type LaborPlan = { stages: LaborStageInterval[]; contractions: LaborContraction[] };
+
+// Stages share out [0, total_sec); the last one runs on to horizon_sec, an upper bound of the recording
+// length, and so do the contractions
+export function generate_labor_plan(total_sec: number, fs: number, rand: RNG, opts: LaborOptions = {}, horizon_sec = total_sec): LaborPlan {
+  const order = opts.stages?.length ? opts.stages : (["latent", "active", "second"] as LaborStage[]);
+  const share = { ...STAGE_SHARE, ...opts.stage_share };
+  const total_share = order.reduce((s, g) => s + share[g], 0) || 1;
+  const total_len = Math.max(1, Math.floor(total_sec * fs));
+  const horizon_len = Math.max(total_len, Math.floor(horizon_sec * fs));
+  const stages: LaborStageInterval[] = [];
+  let acc = 0;
+  for (const stage of order) {
+    const start = Math.floor((acc / total_share) * total_len);
+    acc += share[stage];
+    const end = Math.floor((acc / total_share) * total_len);
+    if (end > start) stages.push({ stage, start, end });
+  }
+  stages[stages.length - 1].end = horizon_len;
+
+  const contractions: LaborContraction[] = [];
+  // the recording starts somewhere in the first inter-contraction interval
+  let t = rand() * (600 / labor_stage_profile(order[0], opts).uc_rate_per_10min[0]);
+  while (t < horizon_sec) {
+    const g = stages.find((s) => t * fs < s.end) ?? stages[stages.length - 1];
+    const p = labor_stage_profile(g.stage, opts);
+    const x = (t * fs - g.start) / Math.max(1, g.end - g.start);
+    const rate = lerp(p.uc_rate_per_10min, x);
+    const dur = p.uc_duration_range[0] + rand() * (p.uc_duration_range[1] - p.uc_duration_range[0]);
+    const start = Math.floor(t * fs), end = start + Math.floor(dur * fs);
+    const intensity = Math.min(1, lerp(p.uc_intensity, x) * (0.9 + 0.2 * rand()));
+    const decel = rand() < p.decel_probability ? p.decel_mode : "none";
+    // intervals are far more regular in labor than a Poisson process
+    const interval = (600 / Math.max(0.1, rate)) * (0.85 + 0.3 * rand());
+    contractions.push({ start, end, peak: start + Math.floor((end - start) / 2), intensity, stage: g.stage, decel });
+    t += Math.max(interval, dur + MIN_REST_SEC);
+  }
+  return { stages, contractions };
+}
+
+export function labor_stage_profile(stage: LaborStage, opts: LaborOptions = {}): LaborStageProfile {
+  return { ...LABOR_STAGE_PROFILES[stage], ...opts.profiles?.[stage] };
+}
+
+// Maternal pushing artifacts at the sensor for every contraction of a pushing stage
+export function render_labor_artifacts(
+  total_len: number,
+  fs: number,
+  rand: RNG,
+  contractions: LaborContraction[],
+  opts: LaborOptions = {},
+): { signal: number[]; events: LaborEvent[] } {
+  const { pushes_per_contraction = [2, 4], push_intensity = 0.3, push_movement_intensity = 3 } = opts;
+  const signal = new Array<number>(total_len).fill(0);
+  const events: LaborEvent[] = [];
+  const nyq = 0.45 * fs;
+  const add = (seg: number[], at: number) => {
+    for (let i = 0; i < seg.length && at + i < total_len; i++) if (at + i >= 0) signal[at + i] += seg[i];
+  };
+  const label = (type: LaborEvent["type"], start: number, len: number, uc_index: number) => {
+    if (start < total_len) events.push({ type, start: Math.max(0, start), end: Math.min(total_len, start + len), uc_index });
+  };
+  // body movement: band-limited burst with a sharp onset, decaying
+  const burst = (at: number, uc_index: number) => {
+    const L = Math.max(8, Math.floor((0.3 + 0.5 * rand()) * fs));
+    const seg = new Array<number>(L);
+    for (let i = 0; i < L; i++) seg[i] = gaussian(rand);
+    simple_bandpass(seg, 5, Math.min(nyq, 60), fs, seg);
+    const amp = 0.25 * push_movement_intensity * (0.8 + 0.4 * rand());
+    for (let i = 0; i < L; i++) seg[i] *= amp * Math.min(1, i / (0.02 * fs)) * Math.exp((-4 * i) / L);
+    add(seg, at);
+    label("movement", at, L, uc_index);
+  };
+
+  contractions.forEach((uc, uc_index) => {
+    if (!labor_stage_profile(uc.stage, opts).pushing) return;
+    const n = pushes_per_contraction[0] + Math.floor(rand() * (pushes_per_contraction[1] - pushes_per_contraction[0] + 1));
+    // pushing starts once the contraction has built up and stops before it fades
+    let at = uc.start + Math.floor((0.2 + 0.1 * rand()) * (uc.end - uc.start));
+    const stop = uc.end - Math.floor(0.15 * (uc.end - uc.start));
+    for (let k = 0; k < n; k++) {
+      const L = Math.floor((5 + 3 * rand()) * fs);
+      if (at + L > stop) break;
+      // Valsalva hold: tremulous abdominal-wall EMG plus the slow swell of intra-abdominal pressure
+      const seg = new Array<number>(L);
+      for (let i = 0; i < L; i++) seg[i] = gaussian(rand);
+      simple_bandpass(seg, 20, Math.min(nyq, 150), fs, seg);
+      const tremor = 8 + 4 * rand();
+      const amp = push_intensity * uc.intensity * (0.8 + 0.4 * rand());
+      const edge = Math.max(1, Math.floor(0.5 * fs));
+      for (let i = 0; i < L; i++) {
+        const w = Math.min(1, i / edge, (L - i) / edge);
+        const swell = Math.sin((Math.PI * i) / L);
+        seg[i] = amp * (w * (0.7 + 0.3 * Math.sin((2 * Math.PI * tremor * i) / fs)) * seg[i] + 1.5 * swell);
+      }
+      add(seg, at);
+      label("push", at, L, uc_index);
+      burst(at, uc_index);
+      burst(at + L, uc_index);
+      at += L + Math.floor((2 + 2 * rand()) * fs); // catch a breath
+    }
+  });
+  events.sort((a, b) => a.start - b.start);
+  return { signal, events };
+}
+
+function lerp([a, b]: [number, number], x: number) {
+  return a + (b - a) * Math.min(1, Math.max(0, x));
+}
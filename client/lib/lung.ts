@@ -1,6 +1,9 @@
 // Lung sound synthesis utilities (ported and adapted from provided Python)
 // Generates: normal breath, fine/coarse crackles overlay, rhythmic wheeze, with environment noise
 
+import { array_max, max_abs } from "./dsp";
+import { createSeedStreams, gaussian, seededRng } from "./rng";
+
 export type BreathParams = {
   fs?: number;
   nCycles?: number;
@@ -20,22 +23,6 @@ export type BreathParams = {
 };
 
 // ------------------------------------- helpers -------------------------------------
-function rng(seed?: number) {
-  if (seed == null) return Math.random;
-  let s = (seed >>> 0) || 1;
-  return () => {
-    s |= 0; s = (s + 0x6D2B79F5) | 0;
-    let t = Math.imul(s ^ (s >>> 15), 1 | s);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-function gaussian(rand: () => number) {
-  let u = 0, v = 0;
-  while (u === 0) u = rand();
-  while (v === 0) v = rand();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-}
 function raisedCosine(n: number) {
   const out = new Array<number>(n);
   for (let i = 0; i < n; i++) out[i] = 0.5 * (1 - Math.cos((Math.PI * i) / n));
@@ -110,14 +97,14 @@ function oneCycleRandom(params: Required<BreathParams> & { rand: () => number })
   const inspHalf = raisedCosine(Math.max(1, Math.floor(n_insp / 2)));
   let insp_env = inspHalf.concat(inspHalf.slice().reverse());
   if (insp_env.length < n_insp) insp_env = insp_env.concat(new Array(n_insp - insp_env.length).fill(0));
-  const inspMax = Math.max(...insp_env, 1e-9);
+  const inspMax = array_max(insp_env, 1e-9);
   for (let i = 0; i < n_insp; i++) env[i] = insp_amp * (insp_env[i] / inspMax);
 
   const expHalf = raisedCosine(Math.max(1, Math.floor(n_exp / 2)));
   let exp_env = expHalf.concat(expHalf.slice().reverse());
   if (exp_env.length < n_exp) exp_env = exp_env.concat(new Array(n_exp - exp_env.length).fill(0));
   const expStart = n_insp + n_mid;
-  const expMax = Math.max(...exp_env, 1e-9);
+  const expMax = array_max(exp_env, 1e-9);
   for (let i = 0; i < n_exp; i++) env[expStart + i] = exp_amp * (exp_env[i] / expMax);
 
   // band selection + crossfade
@@ -136,7 +123,7 @@ function oneCycleRandom(params: Required<BreathParams> & { rand: () => number })
   for (let i = 0; i < N; i++) y[i] = (w[i] * x_insp[i] + (1 - w[i]) * x_exp[i]) * env[i];
 
   // normalize
-  const peak = Math.max(...y.map((v) => Math.abs(v)), 1e-9);
+  const peak = max_abs(y, 1e-9);
   for (let i = 0; i < N; i++) y[i] = (0.95 * y[i]) / peak;
 
   return { y, t, env, params: { band_insp, band_exp, insp_amp, exp_amp, insp_dur, exp_dur } };
@@ -149,7 +136,7 @@ function lerpRand(rand: () => number, range: [number, number]) {
 export function synthBreathRandomCycles(p: BreathParams = {}) {
   const fs = p.fs ?? 1000;
   const nCycles = p.nCycles ?? 3;
-  const rand = rng(p.seed);
+  const rand = seededRng(p.seed);
   const base: Required<BreathParams> & { rand: () => number } = {
     fs,
     nCycles,
@@ -193,20 +180,20 @@ function pinkNoise(N: number, rand: () => number) {
       acc[i] += (1 / (1 << r)) * v;
     }
   }
-  const maxAbs = Math.max(...acc.map((x) => Math.abs(x)), 1e-9);
+  const maxAbs = max_abs(acc, 1e-9);
   return acc.map((x) => x / maxAbs);
 }
 
 export function makeEnvNoise(fs: number, duration: number, seed = 2025, mix: [number, number] = [0.2, 0.8], band: [number, number] = [300, 800]) {
-  const rand = rng(seed);
+  const rand = seededRng(seed);
   const N = Math.max(1, Math.round(duration * fs));
   const pn = pinkNoise(N, rand);
   const nb = bandpassSafe(new Array<number>(N).fill(0).map(() => gaussian(rand)), fs, band[0], band[1]);
-  const maxNb = Math.max(...nb.map((x) => Math.abs(x)), 1e-9);
+  const maxNb = max_abs(nb, 1e-9);
   for (let i = 0; i < nb.length; i++) nb[i] = nb[i] / maxNb;
   const out = new Array<number>(N);
   for (let i = 0; i < N; i++) out[i] = mix[0] * pn[i] + mix[1] * nb[i];
-  const maxAbs = Math.max(...out.map((x) => Math.abs(x)), 1e-9);
+  const maxAbs = max_abs(out, 1e-9);
   for (let i = 0; i < N; i++) out[i] = out[i] / maxAbs;
   return out;
 }
@@ -218,14 +205,14 @@ export function addNoiseSNR(sig: number[], fs: number, snrDb = 15, seed = 2025,
   const scale = Math.sqrt((sigPower / Math.pow(10, snrDb / 10)) / (noisePower || 1));
   const y = new Array<number>(sig.length);
   for (let i = 0; i < sig.length; i++) y[i] = sig[i] + scale * noise[i];
-  const peak = Math.max(...y.map((v) => Math.abs(v)), 1e-9);
+  const peak = max_abs(y, 1e-9);
   for (let i = 0; i < y.length; i++) y[i] = (0.95 * y[i]) / peak;
   return y;
 }
 function rms(arr: number[]) { return arr.reduce((s, v) => s + v * v, 0) / Math.max(1, arr.length); }
 
 // ------------------------ crackles ------------------------
-export function crackleKernel(fs: number, kind: "fine" | "coarse", rand = rng()) {
+export function crackleKernel(fs: number, kind: "fine" | "coarse", rand = seededRng()) {
   const durMs = kind === "fine" ? lerp(6, 12, rand()) : lerp(14, 30, rand());
   const f0 = kind === "fine" ? lerp(450, 900, rand()) : lerp(180, 350, rand());
   const tauMs = durMs / (kind === "fine" ? lerp(2.0, 3.0, rand()) : lerp(2.2, 3.5, rand()));
@@ -239,17 +226,17 @@ export function crackleKernel(fs: number, kind: "fine" | "coarse", rand = rng())
   if (N >= 3) { k[0] *= 0.2; k[1] *= 0.6; }
   // band-limit and normalize
   let y = bandpassSafe(k, fs, 150, Math.min(1800, 0.49 * fs));
-  const maxAbs = Math.max(...y.map((v) => Math.abs(v)), 1e-9);
+  const maxAbs = max_abs(y, 1e-9);
   y = y.map((v) => v / maxAbs);
   return y;
 }
 function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
 
-export function overlayCrackles(y: number[], env: number[], fs: number, profile: "fine" | "coarse") {
+export function overlayCrackles(y: number[], env: number[], fs: number, profile: "fine" | "coarse", seed: number | null = null) {
   const out = y.slice();
   const events: { sample: number; time: number; amp: number; kind: string }[] = [];
   const N = y.length;
-  const rnd = rng(77);
+  const rnd = seededRng(seed);
 
   const cfg = profile === "fine"
     ? { rateHz: 7.0, amp: [0.35, 0.65] as [number, number], burstProb: 0.28, burstK: [1, 2] as [number, number], fineRatio: 0.9, refractoryMs: 18, bias: "insp_late" as const }
@@ -257,7 +244,7 @@ export function overlayCrackles(y: number[], env: number[], fs: number, profile:
 
   // phase bias from env
   let w = new Array<number>(N).fill(1);
-  const eMax = Math.max(...env, 0);
+  const eMax = array_max(env, 0);
   if (eMax > 0) {
     const e = env.map((v) => v / eMax);
     const mid = Math.floor(e.length / 2);
@@ -270,7 +257,7 @@ export function overlayCrackles(y: number[], env: number[], fs: number, profile:
       for (let i = mid; i < mid + Math.floor((e.length - mid) / 2); i++) early[i] = 1;
       w = e.map((v, i) => 0.25 + 0.75 * (0.5 * v + 0.5 * early[i]));
     }
-    const wm = Math.max(...w, 1e-9);
+    const wm = array_max(w, 1e-9);
     w = w.map((v) => v / wm);
   }
 
@@ -313,23 +300,23 @@ export function overlayCrackles(y: number[], env: number[], fs: number, profile:
       i++;
     }
   }
-  const peak = Math.max(...out.map((v) => Math.abs(v)), 1e-9);
+  const peak = max_abs(out, 1e-9);
   for (let k = 0; k < out.length; k++) out[k] = (0.98 * out[k]) / peak;
   return { y: out, events };
 }
 function clamp(x: number, a: number, b: number) { return Math.max(a, Math.min(b, x)); }
 
 // ------------------------ wheeze synthesis ------------------------
-function smoothRand(N: number, fs: number, tauS = 0.25, rand = rng()) {
+function smoothRand(N: number, fs: number, tauS = 0.25, rand = seededRng()) {
   const a = 1.0 / Math.max(2, Math.round(tauS * fs));
   const y = new Array<number>(N);
   let val = 0;
   for (let n = 0; n < N; n++) { val = (1 - a) * val + a * (2 * rand() - 1); y[n] = val; }
-  const maxAbs = Math.max(...y.map((v) => Math.abs(v)), 1e-9);
+  const maxAbs = max_abs(y, 1e-9);
   return y.map((v) => v / maxAbs);
 }
 function gateFromEnv(env: number[], fs: number, thr = 0.12, releaseMs = 120, attackMs = 40) {
-  const eMax = Math.max(...env, 1e-9);
+  const eMax = array_max(env, 1e-9);
   const e = env.map((v) => v / eMax);
   const att = Math.max(1, Math.round((attackMs * fs) / 1000));
   const rel = Math.max(1, Math.round((releaseMs * fs) / 1000));
@@ -363,10 +350,10 @@ export function synthWheezeRhythmic(t: number[], env: number[], fs: number, opts
     amp_scale: opts.amp_scale ?? 0.28,
     seed: opts.seed ?? 0,
   };
-  const rand = rng(cfg.seed);
+  const rand = seededRng(cfg.seed);
   const N = t.length; const wz = new Array<number>(N).fill(0);
   const e = env.slice();
-  const eMax = Math.max(...e, 1e-9); for (let i = 0; i < e.length; i++) e[i] /= eMax;
+  const eMax = array_max(e, 1e-9); for (let i = 0; i < e.length; i++) e[i] /= eMax;
   // cycle boundaries by low-energy gaps
   const low = e.map((v) => (v < 0.04 ? 1 : 0));
   const gaps: number[] = [];
@@ -403,40 +390,45 @@ export function synthWheezeRhythmic(t: number[], env: number[], fs: number, opts
     }
     for (let i = 0; i < Nseg; i++) wz[i0 + i] += cfg.amp_scale * am[i0 + i] * ampEnv[i] * y[i];
   }
-  const peak = Math.max(...wz.map((v) => Math.abs(v)), 1e-9);
+  const peak = max_abs(wz, 1e-9);
   for (let i = 0; i < wz.length; i++) wz[i] = (0.95 * wz[i]) / peak;
   return wz;
 }
-function normalize(arr: number[]) { const m = Math.max(...arr, 1e-9); return arr.map((v) => v / m); }
+function normalize(arr: number[]) { const m = array_max(arr, 1e-9); return arr.map((v) => v / m); }
 
 // ------------------------ public entry points for UI ------------------------
-export function genNormalLungSignal(count: number, cycles: number) {
+// Each entry point takes a master seed; breath, crackles, wheeze and noise use named substreams of it.
+export function genNormalLungSignal(count: number, cycles: number, seed = 2025) {
   const fs = 1000; // match UI scale
-  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: 2025 });
-  const y = addNoiseSNR(base.y, fs, 12, 2025, [0.2, 0.8], [80, 3000]);
+  const streams = createSeedStreams(seed);
+  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: streams.seedOf("breath") });
+  const y = addNoiseSNR(base.y, fs, 12, streams.seedOf("noise"), [0.2, 0.8], [80, 3000]);
   return resampleTo(y, count);
 }
-export function genFineCracklesSignal(count: number, cycles: number) {
+export function genFineCracklesSignal(count: number, cycles: number, seed = 2026) {
   const fs = 1000;
-  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: 2026 });
-  const over = overlayCrackles(base.y, base.env, fs, "fine").y;
-  const y = addNoiseSNR(over, fs, 10, 2026, [0.2, 0.8], [100, 700]);
+  const streams = createSeedStreams(seed);
+  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: streams.seedOf("breath") });
+  const over = overlayCrackles(base.y, base.env, fs, "fine", streams.seedOf("crackles")).y;
+  const y = addNoiseSNR(over, fs, 10, streams.seedOf("noise"), [0.2, 0.8], [100, 700]);
   return resampleTo(y, count);
 }
-export function genCoarseCracklesSignal(count: number, cycles: number) {
+export function genCoarseCracklesSignal(count: number, cycles: number, seed = 2027) {
   const fs = 1000;
-  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: 2027 });
-  const over = overlayCrackles(base.y, base.env, fs, "coarse").y;
-  const y = addNoiseSNR(over, fs, 10, 2027, [0.2, 0.8], [100, 700]);
+  const streams = createSeedStreams(seed);
+  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: streams.seedOf("breath") });
+  const over = overlayCrackles(base.y, base.env, fs, "coarse", streams.seedOf("crackles")).y;
+  const y = addNoiseSNR(over, fs, 10, streams.seedOf("noise"), [0.2, 0.8], [100, 700]);
   return resampleTo(y, count);
 }
-export function genWheezeSignal(count: number, cycles: number) {
+export function genWheezeSignal(count: number, cycles: number, seed = 2028) {
   const fs = 1000;
-  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: 2028 });
-  const wz = synthWheezeRhythmic(base.t, base.env, fs, { f0_range: [420, 820], per_cycle_glide: [-200, 80], n_harm_choices: [2, 3], harmonic_decay: 0.6, fm_dev_hz: [8, 16], fm_tau: [0.18, 0.35], am_depth: [0.25, 0.45], am_tau: [0.25, 0.45], gate_thr: 0.1, exp_bias: 0.8, amp_scale: 0.32, seed: 9 });
+  const streams = createSeedStreams(seed);
+  const base = synthBreathRandomCycles({ fs, nCycles: Math.max(1, Math.floor(cycles)), seed: streams.seedOf("breath") });
+  const wz = synthWheezeRhythmic(base.t, base.env, fs, { f0_range: [420, 820], per_cycle_glide: [-200, 80], n_harm_choices: [2, 3], harmonic_decay: 0.6, fm_dev_hz: [8, 16], fm_tau: [0.18, 0.35], am_depth: [0.25, 0.45], am_tau: [0.25, 0.45], gate_thr: 0.1, exp_bias: 0.8, amp_scale: 0.32, seed: streams.seedOf("wheeze") });
   const mix = new Array<number>(base.y.length);
   for (let i = 0; i < mix.length; i++) mix[i] = base.y[i] + wz[i];
-  const y = addNoiseSNR(mix, fs, 10, 2028, [0.2, 0.8], [100, 700]);
+  const y = addNoiseSNR(mix, fs, 10, streams.seedOf("noise"), [0.2, 0.8], [100, 700]);
   return resampleTo(y, count);
 }
 
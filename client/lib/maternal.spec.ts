@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { generate_maternal_interference } from "./maternal";
+import { mulberry32 } from "./rng";
+
+const fs = 1000;
+const n = 120 * fs;
+const onsets = Array.from({ length: 160 }, (_, k) => k * 750);
+
+describe("generate_maternal_interference", () => {
+  it("should label every event inside the recording", () => {
+    const { events, signal } = generate_maternal_interference(n, fs, mulberry32(1), onsets, { bowel_rate_per_min: 4, voice_rate_per_min: 4 });
+    expect(signal).toHaveLength(n);
+    expect(new Set(events.map((e) => e.type))).toEqual(new Set(["aortic", "bowel", "voice", "cough"]));
+    for (const e of events) {
+      expect(e.start).toBeGreaterThanOrEqual(0);
+      expect(e.end).toBeLessThanOrEqual(n);
+      expect(e.end).toBeGreaterThan(e.start);
+    }
+  });
+
+  it("should follow the maternal S1 with one aortic thump each", () => {
+    const { events } = generate_maternal_interference(n, fs, mulberry32(2), onsets, { bowel: false, voice: false });
+    const thumps = events.filter((e) => e.type === "aortic");
+    expect(thumps).toHaveLength(onsets.length);
+    for (let k = 0; k < thumps.length; k++) expect(thumps[k].start).toBeGreaterThan(onsets[k]);
+  });
+
+  it("should modulate the coupling once per breath within the requested depth", () => {
+    const { coupling, breaths } = generate_maternal_interference(n, fs, mulberry32(3), [], { respiration_rate_per_min: 15, respiration_depth: 0.3 });
+    expect(breaths.length).toBeGreaterThan(25);
+    expect(breaths.length).toBeLessThan(35);
+    expect(coupling.every((v) => v >= 0.7 - 1e-9 && v <= 1)).toBe(true);
+    expect(coupling.some((v) => v < 0.75)).toBe(true);
+  });
+
+  it("should leave the signal silent with every source off", () => {
+    const { signal, coupling, events } = generate_maternal_interference(n, fs, mulberry32(4), onsets, { respiration: false, bowel: false, aortic: false, voice: false });
+    expect(events).toHaveLength(0);
+    expect(signal.every((v) => v === 0)).toBe(true);
+    expect(coupling.every((v) => v === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+// Maternal physiological interference for the fPCG simulator
+// Non-cardiac maternal sources that fetal beat detectors mistake for fetal sounds: respiration (changes
+// the sensor coupling), bowel sounds, aortic pulsation under the sensor, and the mother's voice or cough.
+
+import { max_abs, onepole_lowpass, simple_bandpass } from "./dsp";
+import { gaussian, type RNG } from "./rng";
+
+export type MaternalEventType = "bowel" | "aortic" | "voice" | "cough";
+// Sample indices at fs, [start, end) and clipped to the recording, like UcEvent
+export type MaternalEvent = { type: MaternalEventType; start: number; end: number };
+
+// Every source is on unless switched off
+export type MaternalInterferenceOptions = {
+  respiration?: boolean;
+  respiration_rate_per_min?: number;
+  respiration_depth?: number; // coupling loss at full inspiration (fraction)
+  bowel?: boolean;
+  bowel_rate_per_min?: number; // borborygmi bursts
+  bowel_intensity?: number;
+  aortic?: boolean;
+  aortic_intensity?: number;
+  aortic_delay_sec?: number; // maternal S1 to pulse arrival in the abdominal aorta
+  voice?: boolean;
+  voice_rate_per_min?: number; // speech and cough events together
+  voice_intensity?: number;
+  cough_fraction?: number; // share of those events that are coughs
+};
+
+export type MaternalInterference = {
+  signal: number[]; // additive sources at the sensor
+  coupling: number[]; // multiplicative sensor coupling, 1 = nominal
+  breaths: Array<[number, number]>; // inspiration phases
+  events: MaternalEvent[];
+};
+
+// maternal_s1_onsets: sample index of each maternal S1, which times the aortic thumps
+export function generate_maternal_interference(
+  total_len: number,
+  fs: number,
+  rand: RNG,
+  maternal_s1_onsets: number[],
+  opts: MaternalInterferenceOptions = {},
+): MaternalInterference {
+  const {
+    respiration = true,
+    respiration_rate_per_min = 16,
+    respiration_depth = 0.2,
+    bowel = true,
+    bowel_rate_per_min = 1.5,
+    bowel_intensity = 0.4,
+    aortic = true,
+    aortic_intensity = 0.15,
+    aortic_delay_sec = 0.12,
+    voice = true,
+    voice_rate_per_min = 1,
+    voice_intensity = 0.5,
+    cough_fraction = 0.3,
+  } = opts;
+  const signal = new Array<number>(total_len).fill(0);
+  const coupling = new Array<number>(total_len).fill(1);
+  const breaths: Array<[number, number]> = [];
+  const events: MaternalEvent[] = [];
+  const nyq = 0.45 * fs;
+  const add = (seg: number[], at: number) => {
+    for (let i = 0; i < seg.length && at + i < total_len; i++) if (at + i >= 0) signal[at + i] += seg[i];
+  };
+  const label = (type: MaternalEventType, start: number, len: number) => {
+    if (start < total_len) events.push({ type, start: Math.max(0, start), end: Math.min(total_len, start + len) });
+  };
+
+  // Respiration: the abdomen rises on inspiration and the sensor loses contact pressure
+  if (respiration && respiration_rate_per_min > 0) {
+    const P0 = 60 / respiration_rate_per_min;
+    let t = -rand() * P0;
+    while (t < total_len / fs) {
+      const P = Math.max(0.3 * P0, P0 * (1 + 0.1 * gaussian(rand)));
+      const insp = 0.4 * P;
+      const i0 = Math.floor(t * fs), i1 = Math.floor((t + insp) * fs), i2 = Math.floor((t + P) * fs);
+      for (let i = Math.max(0, i0); i < Math.min(total_len, i2); i++) {
+        const x = i < i1 ? (i - i0) / Math.max(1, i1 - i0) : 1 - (i - i1) / Math.max(1, i2 - i1);
+        coupling[i] = 1 - respiration_depth * (0.5 - 0.5 * Math.cos(Math.PI * x));
+      }
+      if (i1 > 0 && i0 < total_len) breaths.push([Math.max(0, i0), Math.min(total_len, i1)]);
+      t += P;
+    }
+  }
+
+  // Bowel sounds: bursts of short gurgles, each a windowed tone in the 150-600 Hz range
+  for (const st of poisson_onsets(total_len / fs, bowel ? bowel_rate_per_min : 0, rand)) {
+    const dur = 0.5 + 2.5 * rand();
+    const start = Math.floor(st * fs), len = Math.floor(dur * fs);
+    const n_gurgles = 2 + Math.floor(8 * rand());
+    for (let g = 0; g < n_gurgles; g++) {
+      const L = Math.max(4, Math.floor((0.01 + 0.05 * rand()) * fs));
+      const f0 = Math.min(nyq, 150 + 450 * rand());
+      const f1 = Math.min(nyq, f0 * (0.7 + 0.6 * rand())); // slight chirp
+      const amp = bowel_intensity * (0.5 + rand());
+      const seg = new Array<number>(L);
+      let ph = 0;
+      for (let i = 0; i < L; i++) {
+        ph += (2 * Math.PI * (f0 + ((f1 - f0) * i) / L)) / fs;
+        seg[i] = amp * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (L - 1))) * Math.sin(ph);
+      }
+      add(seg, start + Math.floor(rand() * Math.max(1, len - L)));
+    }
+    label("bowel", start, len);
+  }
+
+  // Aortic pulse: a low damped thump under the sensor after each maternal S1
+  if (aortic) {
+    for (const on of maternal_s1_onsets) {
+      const start = on + Math.floor((aortic_delay_sec + 0.01 * gaussian(rand)) * fs);
+      const L = Math.floor(0.12 * fs);
+      const f = 8 + 12 * rand();
+      const amp = aortic_intensity * (1 + 0.1 * gaussian(rand));
+      const seg = new Array<number>(L);
+      for (let i = 0; i < L; i++) seg[i] = amp * Math.exp((-5 * i) / L) * Math.sin((2 * Math.PI * f * i) / fs);
+      add(seg, start);
+      label("aortic", start, L);
+    }
+  }
+
+  // Voice and cough, muffled by the body before they reach the abdominal wall
+  for (const st of poisson_onsets(total_len / fs, voice ? voice_rate_per_min : 0, rand)) {
+    const start = Math.floor(st * fs);
+    if (rand() < cough_fraction) {
+      // cough: sharp broadband burst with a diaphragm thump
+      const L = Math.floor((0.25 + 0.25 * rand()) * fs);
+      const seg = new Array<number>(L);
+      for (let i = 0; i < L; i++) seg[i] = gaussian(rand) * Math.min(1, i / (0.01 * fs)) * Math.exp((-6 * i) / L);
+      const burst = simple_bandpass(seg, 40, Math.min(nyq, 400), fs);
+      const amp = (1.5 * voice_intensity) / (max_abs(burst) || 1);
+      for (let i = 0; i < L; i++) burst[i] = amp * burst[i] + 0.5 * voice_intensity * Math.exp((-20 * i) / L) * Math.sin((2 * Math.PI * 12 * i) / fs);
+      add(burst, start);
+      label("cough", start, L);
+    } else {
+      // speech: harmonic f0 contour with syllabic amplitude modulation
+      const L = Math.floor((0.8 + 2.2 * rand()) * fs);
+      const f0 = 120 + 130 * rand();
+      const syl = 3 + 3 * rand();
+      const seg = new Array<number>(L);
+      let ph = 0;
+      for (let i = 0; i < L; i++) {
+        const t = i / fs;
+        ph += (2 * Math.PI * f0 * (1 + 0.08 * Math.sin(2 * Math.PI * 0.7 * t))) / fs;
+        let v = 0;
+        for (let k = 1; k <= 5 && k * f0 < nyq; k++) v += Math.sin(k * ph) / k;
+        const edge = Math.min(1, i / (0.05 * fs), (L - i) / (0.05 * fs));
+        seg[i] = v * edge * (0.6 + 0.4 * Math.sin(2 * Math.PI * syl * t));
+      }
+      const muffled = onepole_lowpass(seg, Math.min(nyq, 300), fs);
+      const amp = voice_intensity / (max_abs(muffled) || 1);
+      add(muffled.map((v) => amp * v), start);
+      label("voice", start, L);
+    }
+  }
+
+  events.sort((a, b) => a.start - b.start);
+  return { signal, coupling, breaths, events };
+}
+
+function poisson_onsets(total_sec: number, rate_per_min: number, rand: RNG) {
+  const out: number[] = [];
+  const lam = rate_per_min / 60;
+  let t = 0;
+  while (lam > 0) {
+    t += -Math.log(1 - rand()) / lam;
+    if (t >= total_sec) break;
+    out.push(t);
+  }
+  return out;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { render_fetal_murmur } from "./murmur";
+import { mulberry32 } from "./rng";
+
+const fs = 2000;
+const n = 4000;
+// 10 beats of 0.4 s: S1 at the start of each, S2 0.15 s later
+const s1 = Array.from({ length: 10 }, (_, k): [number, number] => [k * 800, k * 800 + 160]);
+const s2 = s1.map(([on]): [number, number] => [on + 300, on + 400]);
+const energy = (x: number[], a: number, b: number) => x.slice(a, b).reduce((s, v) => s + v * v, 0);
+
+describe("render_fetal_murmur", () => {
+  it("should stay in systole and label each beat", () => {
+    const { signal, events } = render_fetal_murmur(n, fs, s1, s2, 1, mulberry32(1), { type: "vsd" });
+    expect(events).toHaveLength(5);
+    for (const e of events) {
+      expect(e.start).toBe(s1[e.beat][0]);
+      expect(e.end).toBeLessThanOrEqual(s2[e.beat][0] + 20);
+      // diastole is silent
+      expect(energy(signal, e.end, s1[e.beat][0] + 800)).toBe(0);
+    }
+  });
+
+  it("should start the ejection murmur after S1 and grow with severity", () => {
+    const mild = render_fetal_murmur(n, fs, s1, s2, 1, mulberry32(2), { type: "outflow_obstruction", severity: 0.1 });
+    const severe = render_fetal_murmur(n, fs, s1, s2, 1, mulberry32(2), { type: "outflow_obstruction", severity: 0.9 });
+    for (const e of severe.events) expect(e.start).toBeGreaterThan(s1[e.beat][0] + 80);
+    expect(energy(severe.signal, 0, n)).toBeGreaterThan(4 * energy(mild.signal, 0, n));
+  });
+});
@@ -0,0 +1,73 @@
+// Fetal murmurs for the fPCG simulator
+// Structural lesions add turbulent flow noise in systole, between each S1 and S2 of the fetal beats:
+// a VSD-like holosystolic plateau, tricuspid regurgitation (holosystolic, lower pitched and fading), and
+// an outflow-tract obstruction (crescendo-decrescendo ejection murmur that peaks later as it worsens).
+
+import { rms, simple_bandpass } from "./dsp";
+import { gaussian, type RNG } from "./rng";
+
+export type FetalMurmurType = "vsd" | "tricuspid_regurgitation" | "outflow_obstruction";
+
+export type FetalMurmurOptions = {
+  type: FetalMurmurType;
+  severity?: number; // 0..1: loudness relative to S1, and pitch/peak timing for outflow obstruction
+};
+
+// Sample indices at fs, [start, end) and clipped to the recording; beat indexes the fetal beats (meta.T)
+export type FetalMurmurEvent = { type: FetalMurmurType; beat: number; start: number; end: number };
+
+type MurmurShape = "plateau" | "decrescendo" | "diamond";
+const PROFILES: Record<FetalMurmurType, { band: [number, number]; shape: MurmurShape; holosystolic: boolean }> = {
+  vsd: { band: [150, 450], shape: "plateau", holosystolic: true },
+  tricuspid_regurgitation: { band: [80, 300], shape: "decrescendo", holosystolic: true },
+  outflow_obstruction: { band: [120, 400], shape: "diamond", holosystolic: false },
+};
+const EJECTION_DELAY_SEC = 0.02; // S1 peak (middle of its interval) to semilunar opening
+const RAMP_SEC = 0.008;
+
+// s1/s2: source interval of each beat's S1 and S2 (aligned by beat); s1_amp scales the murmur loudness
+export function render_fetal_murmur(
+  n: number,
+  fs: number,
+  s1: Array<[number, number]>,
+  s2: Array<[number, number]>,
+  s1_amp: number,
+  rand: RNG,
+  opts: FetalMurmurOptions,
+): { signal: number[]; events: FetalMurmurEvent[] } {
+  const { type, severity = 0.5 } = opts;
+  const sev = Math.min(1, Math.max(0, severity));
+  const { band, shape, holosystolic } = PROFILES[type];
+  // tighter obstructions jet faster: pitch rises with severity
+  const shift = type === "outflow_obstruction" ? 1 + 0.5 * sev : 1;
+  const lo = Math.min(0.4 * fs, band[0] * shift), hi = Math.min(0.45 * fs, band[1] * shift);
+
+  const env = new Array<number>(n).fill(0);
+  const events: FetalMurmurEvent[] = [];
+  const ramp = Math.max(1, Math.round(RAMP_SEC * fs));
+  for (let k = 0; k < Math.min(s1.length, s2.length); k++) {
+    const start = holosystolic ? s1[k][0] : Math.round((s1[k][0] + s1[k][1]) / 2 + EJECTION_DELAY_SEC * fs);
+    const end = holosystolic ? s2[k][0] + ramp : s2[k][0] - ramp;
+    if (start >= n) break;
+    if (end - start < 4 * ramp) continue;
+    const L = end - start;
+    const peak = 0.35 + 0.3 * sev; // diamond peak position within the murmur
+    const amp = 1 + 0.1 * gaussian(rand);
+    for (let i = 0; i < L && start + i < n; i++) {
+      const x = i / L;
+      let e = shape === "plateau" ? 1 : shape === "decrescendo" ? 1 - 0.4 * x : x < peak ? x / peak : (1 - x) / (1 - peak);
+      e *= Math.min(1, i / ramp, (L - i) / ramp);
+      env[start + i] = amp * e;
+    }
+    events.push({ type, beat: k, start, end: Math.min(n, end) });
+  }
+
+  // one band-limited noise track for the whole recording, gated by the systolic envelope
+  const noise = new Array<number>(n);
+  for (let i = 0; i < n; i++) noise[i] = gaussian(rand);
+  simple_bandpass(noise, lo, hi, fs, noise);
+  simple_bandpass(noise, lo, hi, fs, noise);
+  const scale = (s1_amp * (0.05 + 0.45 * sev)) / (rms(noise) || 1);
+  for (let i = 0; i < n; i++) noise[i] *= scale * env[i];
+  return { signal: noise, events };
+}
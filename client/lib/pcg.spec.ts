@@ -0,0 +1,251 @@
+import { describe, it, expect } from "vitest";
+import { generateRRTachogram, simulateHeartDataset, simulateHeartSamples } from "./pcg";
+import { mulberry32 } from "./rng";
+
+describe("simulateHeartDataset", () => {
+  it("should time the beats from the heart rate and label S1/S2", () => {
+    const { t, y, meta } = simulateHeartDataset({ cycles: 6, fs: 2000, heartRate: 75, seed: 1, abnormal: "s3" });
+    expect(y).toHaveLength(6 * 1600);
+    expect(y.every(Number.isFinite)).toBe(true);
+    expect(t[1]).toBeCloseTo(1 / 2000);
+    expect(meta).toMatchObject({ fs: 2000, abnormal: "s3", params: { heartRate: 75, seed: 1, sampleIndex: 0 } });
+    expect(meta.s1Times).toHaveLength(6);
+    for (let b = 0; b < 6; b++) {
+      expect(meta.s1Times[b]).toBeCloseTo(b * 0.8 + 0.12 * 0.8);
+      expect(meta.s2Times[b]).toBeGreaterThan(meta.s1Times[b]);
+    }
+    // the labeled sounds stand out of the noise
+    const level = (a: number, b: number) => y.slice(a, b).reduce((s, v) => s + Math.abs(v), 0) / (b - a);
+    const mean = level(0, y.length);
+    for (const s1 of meta.s1Times) expect(level(Math.round((s1 - 0.03) * 2000), Math.round((s1 + 0.03) * 2000))).toBeGreaterThan(2 * mean);
+  });
+
+  it("should keep the chest resonance stable: finite output within the normalized range", () => {
+    for (const abnormal of [null, "systolic_murmur", "diastolic_murmur", "s2_split", "s3"] as const) {
+      const { y } = simulateHeartDataset({ cycles: 4, fs: 2000, seed: 11, abnormal });
+      expect(y.every(Number.isFinite)).toBe(true);
+      const peak = y.reduce((m, v) => Math.max(m, Math.abs(v)), 0);
+      expect(peak).toBeGreaterThan(0.1);
+      expect(peak).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("should regenerate from the seed and give every sample its own streams", () => {
+    const [a, b] = simulateHeartSamples({ cycles: 3, samples: 2, seed: 7 });
+    expect(simulateHeartDataset({ cycles: 3, seed: 7 }).y).toEqual(a.y);
+    expect(b.meta.params.sampleIndex).toBe(1);
+    expect(b.y).not.toEqual(a.y);
+    expect(simulateHeartSamples({ cycles: 3, samples: 2, seed: 7 })[1].y).toEqual(b.y);
+  });
+});
+
+describe("additional heart sound events", () => {
+  const fs = 2000;
+  const peak = (y: number[], start: number, end: number) => {
+    let m = 0;
+    for (let i = Math.round(start * fs); i < Math.round(end * fs); i++) m = Math.max(m, Math.abs(y[i]));
+    return m;
+  };
+
+  it("should label one event per beat at the requested timing", () => {
+    for (const [abnormal, anchor] of [["s4", "s1"], ["ejection_click", "s1"], ["opening_snap", "s2"]] as const) {
+      const { meta } = simulateHeartDataset({ cycles: 5, fs, heartRate: 60, seed: 2, abnormal, eventTimingMs: 70 });
+      expect(meta.events).toHaveLength(5);
+      expect(meta.params.eventTimingMs).toBe(70);
+      meta.events.forEach((e, b) => {
+        expect(e).toMatchObject({ type: abnormal, beat: b });
+        const ref = anchor === "s1" ? meta.s1Times[b] : meta.s2Times[b];
+        const at = abnormal === "s4" ? (e.start + e.end) / 2 - ref : e.start - ref;
+        expect(Math.abs(at - (abnormal === "s4" ? -0.07 : 0.07))).toBeLessThan(0.015);
+      });
+    }
+  });
+
+  it("should place the prolapse click in mid-systole and scale events with intensity", () => {
+    const soft = simulateHeartDataset({ cycles: 4, fs, seed: 3, abnormal: "midsystolic_click", eventIntensity: 0.2 });
+    const loud = simulateHeartDataset({ cycles: 4, fs, seed: 3, abnormal: "midsystolic_click", eventIntensity: 0.9 });
+    for (const e of loud.meta.events) {
+      expect(e.start).toBeGreaterThan(loud.meta.s1Times[e.beat] + 0.05);
+      expect(e.end).toBeLessThan(loud.meta.s2Times[e.beat] - 0.05);
+    }
+    const e = loud.meta.events[1];
+    expect(peak(loud.y, e.start, e.end)).toBeGreaterThan(peak(soft.y, e.start, e.end) + 0.3);
+  });
+
+  it("should split the friction rub into atrial, systolic and diastolic components", () => {
+    const { meta } = simulateHeartDataset({ cycles: 3, fs, heartRate: 70, seed: 4, abnormal: "friction_rub" });
+    const beat1 = meta.events.filter((e) => e.beat === 1);
+    expect(beat1.map((e) => e.component)).toEqual(["atrial", "systolic", "diastolic"]);
+    expect(beat1[0].end).toBeLessThan(meta.s1Times[1]);
+    expect(beat1[1].start).toBeGreaterThan(meta.s1Times[1]);
+    expect(beat1[2].start).toBeGreaterThan(meta.s2Times[1]);
+  });
+
+  it("should label the in-beat findings too", () => {
+    const { meta } = simulateHeartDataset({ cycles: 3, seed: 5, abnormal: "systolic_murmur" });
+    expect(meta.events.map((e) => [e.start, e.end])).toEqual(meta.s1Times.map((s1, b) => [s1, meta.s2Times[b]]));
+    expect(meta.params.eventIntensity).toBeNull();
+    expect(simulateHeartDataset({ cycles: 3, seed: 5 }).meta.events).toHaveLength(0);
+  });
+});
+
+describe("murmur profiles", () => {
+  const fs = 2000;
+  const rms = (y: number[], start: number, end: number) => {
+    let s = 0;
+    const i0 = Math.round(start * fs), i1 = Math.round(end * fs);
+    for (let i = i0; i < i1; i++) s += y[i] * y[i];
+    return Math.sqrt(s / (i1 - i0));
+  };
+
+  it("should annotate the profile in CirCor wording", () => {
+    const { meta } = simulateHeartDataset({ cycles: 2, fs, seed: 6, abnormal: "systolic_murmur", murmur: { shape: "plateau", pitch: "high", grade: 3.2 } });
+    expect(meta.murmur).toMatchObject({ phase: "systolic", shape: "plateau", timing: "holo", grade: 3, band: [150, 600] });
+    expect(meta.murmur.circor).toEqual({ timing: "Holosystolic", shape: "Plateau", pitch: "High", grading: "III/VI" });
+    const ar = simulateHeartDataset({ cycles: 2, fs, seed: 6, abnormal: "diastolic_murmur", murmur: { shape: "decrescendo", timing: "early", grade: 2 } });
+    expect(ar.meta.murmur.circor).toMatchObject({ timing: "Early-diastolic", shape: "Decrescendo", grading: "II/VI" });
+    expect(simulateHeartDataset({ cycles: 2, seed: 6, abnormal: "s3" }).meta.murmur).toBeNull();
+  });
+
+  it("should keep each timing inside its phase and scale the level with the grade", () => {
+    for (const timing of ["early", "mid", "late"] as const) {
+      const { meta } = simulateHeartDataset({ cycles: 4, fs, heartRate: 60, seed: 7, abnormal: "systolic_murmur", murmur: { timing } });
+      for (const e of meta.events) {
+        expect(e.start).toBeGreaterThanOrEqual(meta.s1Times[e.beat] - 1e-9);
+        expect(e.end).toBeLessThanOrEqual(meta.s2Times[e.beat] + 1e-9);
+      }
+    }
+    const level = (grade: number) => {
+      const { y, meta } = simulateHeartDataset({ cycles: 4, fs, heartRate: 60, snrDb: 30, seed: 8, abnormal: "systolic_murmur", murmur: { shape: "plateau", grade } });
+      const e = meta.events[2];
+      return rms(y, e.start + 0.08, e.end - 0.08);
+    };
+    expect(level(2)).toBeGreaterThan(1.3 * level(1));
+    expect(level(5)).toBeGreaterThan(2 * level(2));
+  });
+
+  it("should run the rumble on to the next S1 with presystolic accentuation", () => {
+    const { y, meta } = simulateHeartDataset({ cycles: 5, fs, heartRate: 60, snrDb: 30, seed: 9, abnormal: "diastolic_murmur", murmur: { shape: "rumble", pitch: "low", grade: 4 } });
+    expect(meta.murmur).toMatchObject({ timing: "mid", circor: { timing: "Mid-diastolic", pitch: "Low" } });
+    const e = meta.events[2];
+    expect(e.start).toBeGreaterThan(meta.s2Times[2] + 0.05);
+    expect(e.end).toBeCloseTo(meta.s1Times[3]);
+    expect(rms(y, meta.s1Times[3] - 0.12, meta.s1Times[3] - 0.04)).toBeGreaterThan(1.5 * rms(y, e.start + 0.02, e.start + 0.1));
+    // the last diastole is cut off by the end of the recording
+    expect(meta.events[4].end).toBeCloseTo(5);
+  });
+});
+
+describe("respiration-modulated S2 splitting", () => {
+  const run = (splitMode: "physiological" | "wide" | "fixed" | "paradoxical") =>
+    simulateHeartDataset({ cycles: 10, fs: 2000, heartRate: 60, seed: 3, abnormal: "s2_split", splitMode, respRate: 12 }).meta;
+
+  it("should widen the physiological split on inspiration and label both components in every beat", () => {
+    const meta = run("physiological");
+    const { splitMs, inspiration, a2Times, p2Times } = meta.s2Split;
+    expect(meta.s2Split).toMatchObject({ mode: "physiological", respRate: 12 });
+    expect(a2Times).toEqual(meta.s2Times);
+    const deep = inspiration.indexOf(Math.max(...inspiration)), shallow = inspiration.indexOf(Math.min(...inspiration));
+    expect(splitMs[deep] - splitMs[shallow]).toBeGreaterThan(20);
+    expect(splitMs[shallow]).toBeLessThan(30);
+    meta.events.forEach((e, b) => {
+      expect(p2Times[b] - a2Times[b]).toBeCloseTo(splitMs[b] / 1000);
+      expect(e.start).toBeCloseTo(a2Times[b] - 0.03);
+      expect(e.end).toBeCloseTo(p2Times[b] + 0.03);
+    });
+    expect(run("wide").s2Split.splitMs.every((v, b) => v > splitMs[b])).toBe(true);
+  });
+
+  it("should fix the ASD split and reverse the paradoxical one", () => {
+    expect(new Set(run("fixed").s2Split.splitMs).size).toBe(1);
+    const { s2Split, s2Times } = run("paradoxical");
+    expect(s2Split.p2Times).toEqual(s2Times);
+    s2Split.a2Times.forEach((a2, b) => expect(a2).toBeGreaterThan(s2Split.p2Times[b]));
+    // closes on inspiration
+    const deep = s2Split.inspiration.indexOf(Math.max(...s2Split.inspiration));
+    expect(s2Split.splitMs[deep]).toBeLessThan(Math.min(...s2Split.splitMs) + 5);
+    expect(simulateHeartDataset({ cycles: 2, seed: 3, abnormal: "s3" }).meta.s2Split).toBeNull();
+  });
+
+  it("should render the paradoxical split with the loud A2 behind P2 and label both", () => {
+    const fs = 4000;
+    const { y, meta } = simulateHeartDataset({ cycles: 10, fs, heartRate: 60, snrDb: 30, seed: 3, abnormal: "s2_split", splitMode: "paradoxical", respRate: 12 });
+    const rms = (c: number) => {
+      let s = 0;
+      for (let i = Math.round((c - 0.012) * fs); i < Math.round((c + 0.012) * fs); i++) s += y[i] * y[i];
+      return Math.sqrt(s / Math.round(0.024 * fs));
+    };
+    const { a2Times, p2Times, splitMs } = meta.s2Split;
+    let a2 = 0, p2 = 0;
+    splitMs.forEach((v, b) => {
+      if (v < 25) return; // fused on inspiration
+      a2 += rms(a2Times[b]);
+      p2 += rms(p2Times[b]);
+    });
+    expect(a2).toBeGreaterThan(1.3 * p2);
+    meta.events.forEach((e, b) => {
+      expect(e.start).toBeCloseTo(p2Times[b] - 0.03);
+      expect(e.end).toBeCloseTo(a2Times[b] + 0.03);
+    });
+  });
+});
+
+describe("heart rate variability", () => {
+  const sd = (x: number[]) => {
+    const m = x.reduce((a, b) => a + b, 0) / x.length;
+    return Math.sqrt(x.reduce((s, v) => s + (v - m) ** 2, 0) / x.length);
+  };
+
+  it("should keep every beat at 60 / heartRate without HRV", () => {
+    const { meta } = simulateHeartDataset({ cycles: 4, fs: 1000, heartRate: 72, seed: 1 });
+    expect(meta.rr).toEqual(new Array(4).fill(833 / 1000));
+    expect(meta.params).toMatchObject({ sdnnMs: null, lfHfRatio: null, respRate: 15 });
+  });
+
+  it("should draw RR intervals around the heart rate with the requested SDNN", () => {
+    const rr = generateRRTachogram(500, 70, 15, 0, mulberry32(1), { sdnnMs: 50, lfHfRatio: 2 });
+    expect(rr.reduce((a, b) => a + b, 0) / rr.length).toBeCloseTo(60 / 70, 1);
+    expect(sd(rr) * 1000).toBeGreaterThan(35);
+    expect(sd(rr) * 1000).toBeLessThan(65);
+    expect(sd(generateRRTachogram(500, 70, 15, 0, mulberry32(1), { sdnnMs: 10 }))).toBeLessThan(sd(rr) / 2);
+  });
+
+  it("should place the beats on the tachogram and shorten RR on inspiration", () => {
+    const fs = 2000;
+    const { y, meta } = simulateHeartDataset({ cycles: 30, fs, heartRate: 70, seed: 2, abnormal: "s2_split", hrv: { lfHfRatio: 0.05 } });
+    expect(new Set(meta.rr).size).toBeGreaterThan(1);
+    expect(y).toHaveLength(Math.round(meta.rr.reduce((a, b) => a + b, 0) * fs));
+    let onset = 0;
+    meta.rr.forEach((r, b) => {
+      expect(meta.s1Times[b]).toBeCloseTo(onset + 0.12 * r, 3);
+      onset += r;
+    });
+    // respiratory sinus arrhythmia: RR against the breath the S2 split follows
+    const x = meta.s2Split.inspiration, r = meta.rr;
+    const mx = x.reduce((a, b) => a + b, 0) / x.length, mr = r.reduce((a, b) => a + b, 0) / r.length;
+    const cov = x.reduce((s, v, b) => s + (v - mx) * (r[b] - mr), 0) / x.length;
+    expect(cov / (sd(x) * sd(r))).toBeLessThan(-0.6);
+  });
+
+  it("should keep a diastolic murmur inside its labeled window across uneven beats", () => {
+    const fs = 4000;
+    const { y, meta } = simulateHeartDataset({
+      cycles: 30, fs, heartRate: 60, snrDb: 40, seed: 5, abnormal: "diastolic_murmur",
+      murmur: { shape: "crescendo", timing: "holo", pitch: "high", grade: 5 }, hrv: { sdnnMs: 120, lfHfRatio: 0.05 },
+    });
+    // second difference as a crude highpass: S1 and S2 sit below 150 Hz, this murmur above
+    const hp = y.map((v, i) => (i > 0 && i < y.length - 1 ? y[i + 1] - 2 * v + y[i - 1] : 0));
+    const energy = (a: number, b: number) => {
+      let s = 0;
+      for (let i = Math.round(a * fs); i < Math.round(b * fs); i++) s += hp[i] ** 2;
+      return s;
+    };
+    let inside = 0, after = 0;
+    meta.events.slice(0, -1).forEach((e, b) => {
+      expect(e.end).toBeCloseTo(meta.s1Times[b + 1], 6);
+      inside += energy(e.end - 0.03, e.end);
+      after += energy(e.end + 0.002, e.end + 0.032);
+    });
+    expect(after).toBeLessThan(0.05 * inside);
+  });
+});
@@ -1,27 +1,12 @@
 // Human Phonocardiogram (PCG) simulation
 // Port of Python implementation with normal and abnormal (4-class) support
 
-import type { HeartSimOutput } from "@shared/api";
-
-type RNG = () => number;
-
-function seededRandom(seed: number): RNG {
-  let s = seed >>> 0;
-  return () => {
-    s = (s + 0x6d2b79f5) | 0;
-    let t = Math.imul(s ^ (s >>> 15), 1 | s);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function gaussian(rng: RNG): number {
-  let u = 0,
-    v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-}
+import type {
+  HeartAbnormality, HeartSimOutput, HeartSoundEvent, MurmurAnnotation, MurmurPitch, MurmurProfile, MurmurShape, MurmurTiming,
+  S2SplitAnnotation, S2SplitMode,
+} from "@shared/api";
+import { max_abs } from "./dsp";
+import { createSeedStreams, gaussian, type RNG, type SeedStreams } from "./rng";
 
 // ===================== 基础滤波器 =====================
 
@@ -94,11 +79,12 @@ function resonator(
   const a2 = Math.exp(-2 * zeta * w0);
   const b0 = 1 - Math.exp(-zeta * w0);
 
+  // y[n] = b0 x[n] - a1 y[n-1] - a2 y[n-2]: poles at radius exp(-zeta w0), so the resonance decays
   const y = new Array<number>(x.length).fill(0);
   for (let i = 0; i < x.length; i++) {
     y[i] = b0 * x[i];
-    if (i >= 1) y[i] += a1 * y[i - 1];
-    if (i >= 2) y[i] += a2 * y[i - 2];
+    if (i >= 1) y[i] -= a1 * y[i - 1];
+    if (i >= 2) y[i] -= a2 * y[i - 2];
   }
   return y;
 }
@@ -211,8 +197,11 @@ function simulateSingleBeat(
   fs: number,
   duration: number,
   params: PCGParams,
-  abnormal?: string,
-  rng: RNG = Math.random
+  abnormal?: HeartAbnormality,
+  rng: RNG = Math.random,
+  murmur: MurmurAnnotation | null = null,
+  murmurWindows: Array<[number, number]> = [],
+  splitMs: number = 60
 ): { beat: number[]; s1Time: number; s2Time: number } {
   const n = Math.floor(duration * fs);
 
@@ -245,15 +234,8 @@ function simulateSingleBeat(
   for (let i = 0; i < n; i++) beat[i] = s1[i] + s2[i];
 
   // 异常心音注入
-  if (abnormal === "systolic_murmur") {
-    const murmur = addSystolicMurmur(n, fs, tS1, tS2, rng);
-    for (let i = 0; i < n; i++) beat[i] += murmur[i];
-  } else if (abnormal === "diastolic_murmur") {
-    const nextTS1 = duration + params.t_s1_ratio * duration;
-    const murmur = addDiastolicMurmur(n, fs, tS2, nextTS1, rng);
-    for (let i = 0; i < n; i++) beat[i] += murmur[i];
-  } else if (abnormal === "s2_split") {
-    const s2Split = addS2Split(n, fs, tS2, s2, 60, rng);
+  if (abnormal === "s2_split") {
+    const s2Split = addS2Split(n, fs, tS2, s2, splitMs, rng);
     for (let i = 0; i < n; i++) beat[i] = s1[i] + s2Split[i];
   } else if (abnormal === "s3") {
     const s3 = addS3Sound(n, fs, tS2, rng);
@@ -266,59 +248,98 @@ function simulateSingleBeat(
   // 简化滤波：只保留单层低通
   beat = lowpassFilter(beat, fs, 150);
 
+  // 杂音在胸腔滤波之后叠加，保留其音调频带
+  if (murmur) addMurmur(beat, fs, murmur, murmurWindows, rng);
+
   return { beat, s1Time: tS1, s2Time: tS2 };
 }
 
-// ===================== 异常心音函数 =====================
+// ===================== 杂音分型 =====================
+// A murmur is band-limited noise under an envelope: timing places its window in systole (S1 to S2) or
+// diastole (S2 to the next S1), shape is the envelope over that window, pitch picks the band and the
+// Levine grade sets the level against S1. The mitral stenosis rumble is diastolic only: a mid-diastolic
+// hump followed by presystolic accentuation into S1.
 
-function addSystolicMurmur(
-  n: number,
-  fs: number,
-  tS1: number,
-  tS2: number,
-  rng: RNG = Math.random
-): number[] {
-  const murmur = new Array<number>(n).fill(0);
-  const startIdx = Math.floor(tS1 * fs);
-  const endIdx = Math.floor(tS2 * fs);
+type MurmurPhase = MurmurAnnotation["phase"];
 
-  if (endIdx > startIdx) {
-    const len = endIdx - startIdx;
-    for (let i = 0; i < len && startIdx + i < n; i++) {
-      const t = i / fs;
-      const env = Math.exp(-3 * (t / ((endIdx - startIdx) / fs)));
-      const noise = gaussian(rng);
-      murmur[startIdx + i] = 0.25 * env * noise;
-    }
-  }
+const MURMUR_DEFAULTS: Record<MurmurPhase, MurmurProfile> = {
+  systolic: { shape: "decrescendo", timing: "holo", pitch: "medium", grade: 3 },
+  diastolic: { shape: "diamond", timing: "holo", pitch: "medium", grade: 2 },
+};
 
-  return bandpassFilter(murmur, fs, 100, 400);
+const PITCH_BANDS: Record<MurmurPitch, [number, number]> = { low: [25, 150], medium: [60, 300], high: [150, 600] };
+
+// noise RMS relative to the S1 peak for grades 1-6 (index 0 unused); a thrill comes with grade 4 and up
+const GRADE_LEVEL = [0, 0.03, 0.06, 0.1, 0.16, 0.24, 0.34];
+
+// share of systole/diastole the window covers
+const TIMING_SPAN: Record<MurmurTiming, [number, number]> = { early: [0, 0.4], mid: [0.25, 0.75], late: [0.6, 1], holo: [0, 1] };
+
+const MURMUR_RAMP_SEC = 0.01;
+
+function murmurPhase(abnormal: HeartAbnormality | null | undefined): MurmurPhase | null {
+  return abnormal === "systolic_murmur" ? "systolic" : abnormal === "diastolic_murmur" ? "diastolic" : null;
 }
 
-function addDiastolicMurmur(
-  n: number,
-  fs: number,
-  tS2: number,
-  nextTS1: number,
-  rng: RNG = Math.random
-): number[] {
-  const murmur = new Array<number>(n).fill(0);
-  const startIdx = Math.floor(tS2 * fs);
-  const endIdx = Math.min(n, Math.floor(nextTS1 * fs));
+// Resolves a (partial) profile against the phase defaults and labels it the way CirCor annotates murmurs
+function murmurAnnotation(phase: MurmurPhase, profile: Partial<MurmurProfile> | null | undefined, fs: number): MurmurAnnotation {
+  const p = { ...MURMUR_DEFAULTS[phase], ...profile };
+  const shape = p.shape === "rumble" && phase === "systolic" ? MURMUR_DEFAULTS.systolic.shape : p.shape;
+  const timing = shape === "rumble" ? "mid" : p.timing;
+  const grade = Math.min(6, Math.max(1, Math.round(p.grade)));
+  const [lo, hi] = PITCH_BANDS[p.pitch];
+  const word = (w: string) => w[0].toUpperCase() + w.slice(1);
+  return {
+    shape, timing, pitch: p.pitch, grade, phase,
+    band: [Math.min(lo, 0.4 * fs), Math.min(hi, 0.45 * fs)],
+    circor: {
+      timing: timing === "holo" ? `Holo${phase}` : `${word(timing)}-${phase}`,
+      // CirCor has no rumble shape; the presystolic accentuation makes it a crescendo into S1
+      shape: shape === "rumble" ? "Crescendo" : word(shape),
+      pitch: word(p.pitch),
+      grading: `${["I", "II", "III", "IV", "V", "VI"][grade - 1]}/VI`,
+    },
+  };
+}
+
+// Murmur window between the beat's S1 and S2 times; a diastolic one ends at the next S1
+function murmurWindow(m: MurmurAnnotation, tS1: number, tS2: number, nextS1: number): [number, number] {
+  const [a, b] = m.phase === "systolic" ? [tS1, tS2] : [tS2, nextS1];
+  const [u, v] = m.shape === "rumble" ? [0.25, 1] : TIMING_SPAN[m.timing];
+  return [a + u * (b - a), a + v * (b - a)];
+}
+
+function murmurEnvelope(shape: MurmurShape, x: number): number {
+  switch (shape) {
+    case "crescendo": return x;
+    case "decrescendo": return 1 - x;
+    case "diamond": return 1 - Math.abs(2 * x - 1);
+    case "plateau": return 1;
+    case "rumble": return Math.max(0.6 * Math.sin(Math.PI * Math.min(1, x / 0.6)), x > 0.7 ? (x - 0.7) / 0.3 : 0);
+  }
+}
 
-  if (endIdx > startIdx) {
-    const len = endIdx - startIdx;
-    for (let i = 0; i < len && startIdx + i < n; i++) {
+// Adds the murmur to one beat in place; windows are in seconds from the beat start (see simulateMultibeat)
+// and are clipped to the beat
+function addMurmur(beat: number[], fs: number, m: MurmurAnnotation, windows: Array<[number, number]>, rng: RNG = Math.random) {
+  const n = beat.length;
+  const level = GRADE_LEVEL[m.grade] * max_abs(beat, 1e-8);
+  const noise = bandpassNoise(n, fs, m.band[0], m.band[1], rng);
+  const norm = Math.sqrt(noise.reduce((s, v) => s + v * v, 0) / Math.max(1, n)) || 1;
+  for (const [w0, w1] of windows) {
+    for (let i = Math.max(0, Math.ceil(w0 * fs)); i < n; i++) {
       const t = i / fs;
-      const env = Math.sin((Math.PI * t) / ((endIdx - startIdx) / fs));
-      const noise = gaussian(rng);
-      murmur[startIdx + i] = 0.2 * env * noise;
+      if (t < w0) continue;
+      if (t >= w1) break;
+      const ramp = Math.min(1, (t - w0) / MURMUR_RAMP_SEC, (w1 - t) / MURMUR_RAMP_SEC);
+      beat[i] += (level * ramp * murmurEnvelope(m.shape, (t - w0) / (w1 - w0)) * noise[i]) / norm;
     }
   }
-
-  return bandpassFilter(murmur, fs, 80, 300);
 }
 
+// ===================== 异常心音函数 =====================
+
+// splitMs: A2 to P2; negative when P2 leads (paradoxical), then the loud A2 moves behind the soft P2
 function addS2Split(
   n: number,
   fs: number,
@@ -327,14 +348,14 @@ function addS2Split(
   splitMs: number,
   rng: RNG = Math.random
 ): number[] {
-  const splitDelay = (splitMs / 1000) * fs;
+  const lag = splitMs < 0 ? Math.round((-splitMs / 1000) * fs) : 0;
   const result = new Array<number>(n);
-  for (let i = 0; i < n; i++) result[i] = s2Original[i];
+  for (let i = 0; i < n; i++) result[i] = i >= lag ? s2Original[i - lag] : 0;
 
   const s2Split = valveEvent(
     n,
     fs,
-    tS2 + splitMs / 1000,
+    tS2 + Math.max(0, splitMs) / 1000,
     0.03,
     0.4,
     0.2,
@@ -374,17 +395,232 @@ function addS3Sound(
   return bandpassFilter(s3, fs, 20, 150);
 }
 
+// ===================== 附加心音事件 =====================
+// Transients added to the assembled recording at absolute times, so an S4 or the atrial rub component can
+// sit right before an S1 at any heart rate. Timing is measured from the S1/S2 label times (see EVENT_DEFAULTS).
+
+type ExtraSoundType = "s4" | "ejection_click" | "midsystolic_click" | "opening_snap" | "friction_rub";
+
+// timingMs: S4 and atrial rub before S1; ejection and mid-systolic click after S1 (null = mid-systole);
+// opening snap after S2 (the A2-OS interval). intensity: peak relative to the normalized S1.
+const EVENT_DEFAULTS: Record<ExtraSoundType, { timingMs: number | null; intensity: number }> = {
+  s4: { timingMs: 90, intensity: 0.4 },
+  ejection_click: { timingMs: 50, intensity: 0.5 },
+  midsystolic_click: { timingMs: null, intensity: 0.5 },
+  opening_snap: { timingMs: 80, intensity: 0.5 },
+  friction_rub: { timingMs: 80, intensity: 0.35 },
+};
+
+function isExtraSound(abnormal: HeartAbnormality | null): abnormal is ExtraSoundType {
+  return abnormal != null && abnormal in EVENT_DEFAULTS;
+}
+
+// Short high-pitched snap: damped sinusoid from onset t0 (s)
+function addClick(pcg: number[], fs: number, t0: number, freq: number, tau: number, amp: number): [number, number] {
+  const i0 = Math.round(t0 * fs);
+  const len = Math.ceil(5 * tau * fs);
+  const rise = Math.max(1, 0.001 * fs);
+  for (let i = 0; i < len && i0 + i < pcg.length; i++) {
+    if (i0 + i < 0) continue;
+    pcg[i0 + i] += amp * Math.min(1, i / rise) * Math.exp(-i / (tau * fs)) * Math.sin((2 * Math.PI * freq * i) / fs);
+  }
+  return [t0, t0 + len / fs];
+}
+
+// Dull low-frequency thud around `center` (s), Gaussian envelope of width sigma
+function addThud(pcg: number[], fs: number, center: number, freq: number, sigma: number, amp: number): [number, number] {
+  const i0 = Math.round((center - 2.5 * sigma) * fs), i1 = Math.round((center + 2.5 * sigma) * fs);
+  for (let i = Math.max(0, i0); i < Math.min(pcg.length, i1); i++) {
+    const d = i / fs - center;
+    pcg[i] += amp * Math.exp(-0.5 * (d / sigma) ** 2) * Math.sin(2 * Math.PI * freq * d);
+  }
+  return [i0 / fs, i1 / fs];
+}
+
+// Scratchy rub component: Hann-windowed high-pitched noise starting at t0
+function addScratch(pcg: number[], fs: number, t0: number, dur: number, amp: number, rng: RNG): [number, number] {
+  const i0 = Math.round(t0 * fs), len = Math.max(4, Math.round(dur * fs));
+  const scratch = bandpassNoise(len, fs, 100, 400, rng);
+  const peak = max_abs(scratch, 1e-8);
+  for (let i = 0; i < len && i0 + i < pcg.length; i++) {
+    if (i0 + i < 0) continue;
+    pcg[i0 + i] += (amp * scratch[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (len - 1)))) / peak;
+  }
+  return [t0, t0 + len / fs];
+}
+
+function addExtraSounds(
+  pcg: number[],
+  fs: number,
+  rr: number[],
+  s1Times: number[],
+  s2Times: number[],
+  type: ExtraSoundType,
+  timingMs: number | null,
+  intensity: number,
+  rng: RNG
+): HeartSoundEvent[] {
+  const events: HeartSoundEvent[] = [];
+  const dur = pcg.length / fs;
+  const amp = 0.95 * intensity;
+  const push = (beat: number, [start, end]: [number, number], component?: HeartSoundEvent["component"]) => {
+    if (end > 0 && start < dur) events.push({ type, beat, start: Math.max(0, start), end: Math.min(dur, end), ...(component && { component }) });
+  };
+  const lead = (timingMs ?? 0) / 1000;
+  s1Times.forEach((s1, b) => {
+    const s2 = s2Times[b];
+    const jitter = 0.003 * gaussian(rng);
+    if (type === "s4") {
+      // atrial kick into a stiff ventricle, presystolic
+      push(b, addThud(pcg, fs, s1 - lead + jitter, 25 + 15 * rng(), 0.015, amp));
+    } else if (type === "ejection_click") {
+      push(b, addClick(pcg, fs, s1 + lead + jitter, 180 + 40 * rng(), 0.004, amp));
+    } else if (type === "midsystolic_click") {
+      // prolapse click wanders with ventricular loading
+      const at = timingMs == null ? s1 + 0.5 * (s2 - s1) : s1 + lead;
+      push(b, addClick(pcg, fs, at + 3 * jitter, 150 + 40 * rng(), 0.005, amp));
+    } else if (type === "opening_snap") {
+      push(b, addClick(pcg, fs, s2 + lead + jitter, 120 + 40 * rng(), 0.006, amp));
+    } else {
+      // atrial systole, ventricular systole, rapid ventricular filling
+      push(b, addScratch(pcg, fs, s1 - lead - 0.08 + jitter, 0.08, 0.8 * amp, rng), "atrial");
+      push(b, addScratch(pcg, fs, s1 + 0.4 * (s2 - s1) + jitter, 0.1, amp, rng), "systolic");
+      push(b, addScratch(pcg, fs, s2 + 0.1 + jitter, Math.min(0.1, 0.3 * (rr[b] - (s2 - s1))), 0.7 * amp, rng), "diastolic");
+    }
+  });
+  return events;
+}
+
+// Labels for the in-beat findings of simulateSingleBeat, from the same timing rules; a diastolic murmur
+// runs on to the next S1 and is clipped at the end of the recording. rr: length of every beat (s)
+function beatEvents(
+  abnormal: HeartAbnormality,
+  fs: number,
+  rr: number[],
+  s1Times: number[],
+  s2Times: number[],
+  murmur: MurmurAnnotation | null = null,
+  s2Split: S2SplitAnnotation | null = null
+): HeartSoundEvent[] {
+  const onsets = beatOnsets(rr, fs);
+  const dur = onsets[onsets.length - 1] + rr[rr.length - 1];
+  return s1Times.map((s1, b) => {
+    const s2 = s2Times[b];
+    const beatEnd = onsets[b] + rr[b];
+    const [start, end] =
+      murmur ? murmurWindow(murmur, s1, s2, s1Times[b + 1] ?? s1 + rr[b]).map((v) => Math.min(dur, v))
+        : abnormal === "s2_split"
+          ? [Math.min(s2Split.a2Times[b], s2Split.p2Times[b]) - 0.03, Math.max(s2Split.a2Times[b], s2Split.p2Times[b]) + 0.03]
+          : [s2 + 0.15, Math.min(beatEnd, s2 + 0.15 + 200 / fs)];
+    return { type: abnormal, beat: b, start, end };
+  });
+}
+
+// ===================== 呼吸调制 S2 分裂 =====================
+// Inspiration draws more venous return into the right heart and delays P2, so the A2-P2 interval follows the
+// breath. Wide splitting keeps that swing on top of a late P2, an ASD fixes the interval, and in LBBB the
+// late A2 falls after P2: the reversed split is widest on expiration and closes on inspiration.
+
+// split (ms) at end-expiration and at peak inspiration
+const S2_SPLIT_MS: Record<S2SplitMode, [number, number]> = {
+  physiological: [20, 50],
+  wide: [40, 70],
+  fixed: [50, 50],
+  paradoxical: [40, 5],
+};
+
+// Per-beat A2/P2 from a sinusoidal breath sampled at each S2; respPhase is its phase at t = 0
+function s2SplitSchedule(mode: S2SplitMode, respRate: number, s2Times: number[], respPhase: number): S2SplitAnnotation {
+  const [exp, insp] = S2_SPLIT_MS[mode];
+  const inspiration = s2Times.map((t) => 0.5 - 0.5 * Math.cos((2 * Math.PI * respRate * t) / 60 + respPhase));
+  const splitMs = inspiration.map((x) => exp + (insp - exp) * x);
+  const later = s2Times.map((t, b) => t + splitMs[b] / 1000);
+  return {
+    mode, respRate, splitMs, inspiration,
+    a2Times: mode === "paradoxical" ? later : s2Times.slice(),
+    p2Times: mode === "paradoxical" ? s2Times.slice() : later,
+  };
+}
+
+// ===================== RR 间期序列 =====================
+// Beat-to-beat RR intervals with short-term HRV in two spectral bands, as in ECGSYN: LF around 0.1 Hz from
+// baroreflex (Mayer) waves, and HF at the breathing rate, the respiratory sinus arrhythmia that shortens RR
+// on inspiration. Both are sampled at each beat onset, and the breath is the one that drives the S2 split.
+
+export type HrvOptions = {
+  sdnnMs?: number; // RR standard deviation
+  lfHfRatio?: number; // LF to HF power
+};
+
+const HRV_DEFAULTS: Required<HrvOptions> = { sdnnMs: 40, lfHfRatio: 1.5 };
+const LF_CENTER_HZ = 0.1;
+const LF_WIDTH_HZ = 0.01;
+const LF_COMPONENTS = 16;
+const RR_RANGE_SEC: [number, number] = [0.3, 2];
+
+// RR intervals (s) of numBeats beats around 60 / heartRate; respPhase is the breath phase at t = 0
+export function generateRRTachogram(
+  numBeats: number,
+  heartRate: number,
+  respRate: number,
+  respPhase: number,
+  rng: RNG = Math.random,
+  opts: HrvOptions = {}
+): number[] {
+  const { sdnnMs, lfHfRatio } = { ...HRV_DEFAULTS, ...opts };
+  const sdLf = (sdnnMs / 1000) * Math.sqrt(lfHfRatio / (1 + lfHfRatio));
+  const sdHf = (sdnnMs / 1000) / Math.sqrt(1 + lfHfRatio);
+  // unit-variance LF process: sinusoids at frequencies drawn from its Gaussian spectral peak
+  const lf = Array.from({ length: LF_COMPONENTS }, () => ({ f: LF_CENTER_HZ + LF_WIDTH_HZ * gaussian(rng), phase: 2 * Math.PI * rng() }));
+  const rr: number[] = [];
+  let t = 0;
+  for (let b = 0; b < numBeats; b++) {
+    let lfT = 0;
+    for (const c of lf) lfT += Math.cos(2 * Math.PI * c.f * t + c.phase);
+    // the cosine of the breath phase is -1 at peak inspiration (see s2SplitSchedule)
+    const rsa = Math.SQRT2 * Math.cos((2 * Math.PI * respRate * t) / 60 + respPhase);
+    const r = 60 / heartRate + sdLf * Math.sqrt(2 / LF_COMPONENTS) * lfT + sdHf * rsa;
+    rr.push(Math.min(RR_RANGE_SEC[1], Math.max(RR_RANGE_SEC[0], r)));
+    t += rr[b];
+  }
+  return rr;
+}
+
+// Start (s) of every beat; each one spans floor(rr * fs) samples, as in simulateSingleBeat
+function beatOnsets(rr: number[], fs: number): number[] {
+  let offset = 0;
+  return rr.map((r) => {
+    const start = offset / fs;
+    offset += Math.floor(r * fs);
+    return start;
+  });
+}
+
 // ===================== 多周期 PCG =====================
 
 export function simulateMultibeat(
   numBeats: number,
   fs: number,
-  beatLengthSec: number,
+  beatLengthSec: number | number[], // one length for every beat, or an RR tachogram
   params: PCGParams,
-  abnormal?: string,
+  abnormal?: HeartAbnormality,
   snrDb: number = 5,
-  rng: RNG = Math.random
-): { pcg: number[]; s1Times: number[]; s2Times: number[] } {
+  rng: RNG = Math.random,
+  noiseRng: RNG = rng,
+  murmur: MurmurAnnotation | null = null,
+  splitMs: number[] | null = null // per beat, signed as in addS2Split
+): { pcg: number[]; s1Times: number[]; s2Times: number[]; rr: number[] } {
+  const rr = typeof beatLengthSec === "number" ? new Array<number>(numBeats).fill(beatLengthSec) : beatLengthSec.slice(0, numBeats);
+  const onsets = beatOnsets(rr, fs);
+  const phase = murmurPhase(abnormal);
+  const m = phase ? murmur ?? murmurAnnotation(phase, null, fs) : null;
+  // murmur window of beat b in seconds from the start of beat `from`; a diastolic one ends at the next S1,
+  // which the last beat takes one of its own lengths on
+  const windowOf = (b: number, from: number) => {
+    const at = onsets[b] - onsets[from];
+    const nextS1 = b + 1 < numBeats ? onsets[b + 1] - onsets[from] + params.t_s1_ratio * rr[b + 1] : at + (1 + params.t_s1_ratio) * rr[b];
+    return murmurWindow(m, at + params.t_s1_ratio * rr[b], at + params.t_s2_ratio * rr[b], nextS1);
+  };
   const beats: number[][] = [];
   const s1Times: number[] = [];
   const s2Times: number[] = [];
@@ -392,13 +628,17 @@ export function simulateMultibeat(
   for (let b = 0; b < numBeats; b++) {
     const { beat, s1Time, s2Time } = simulateSingleBeat(
       fs,
-      beatLengthSec,
+      rr[b],
       params,
       abnormal,
-      rng
+      rng,
+      m,
+      // the previous diastole runs on into this beat's presystole
+      m ? (m.phase === "diastolic" && b > 0 ? [windowOf(b - 1, b), windowOf(b, b)] : [windowOf(b, b)]) : [],
+      splitMs?.[b]
     );
 
-    let processed = addNoiseSNR(beat, snrDb, fs, rng);
+    let processed = addNoiseSNR(beat, snrDb, fs, noiseRng);
 
     // Ensure signal is not all zeros
     const peak = Math.max(
@@ -424,14 +664,14 @@ export function simulateMultibeat(
     }
 
     beats.push(processed);
-    s1Times.push(s1Time + b * beatLengthSec);
-    s2Times.push(s2Time + b * beatLengthSec);
+    s1Times.push(s1Time + onsets[b]);
+    s2Times.push(s2Time + onsets[b]);
   }
 
   const pcg = beats.flat();
 
   // Ensure signal is not empty and has reasonable amplitude
-  if (pcg.length === 0 || Math.max(...pcg.map(v => Math.abs(v)), 0) < 0.01) {
+  if (pcg.length === 0 || max_abs(pcg, 0) < 0.01) {
     // Generate fallback signal if something went wrong
     console.warn(`[simulateMultibeat] Weak signal detected, applying amplification`);
     for (let i = 0; i < pcg.length; i++) {
@@ -439,7 +679,8 @@ export function simulateMultibeat(
     }
   }
 
-  return { pcg, s1Times, s2Times };
+  // realized beat lengths, whole samples
+  return { pcg, s1Times, s2Times, rr: beats.map((beat) => beat.length / fs) };
 }
 
 // ===================== 默认参数 =====================
@@ -457,31 +698,103 @@ const defaultParams: PCGParams = {
 
 // ===================== 公开 UI 入口 =====================
 
-export function simulateHeartDataset(opts: {
+export type HeartSimOptions = {
   cycles?: number;
   fs?: number;
-  abnormal?: string;
-} = {}): { t: number[]; y: number[] } {
+  abnormal?: HeartAbnormality | null;
+  heartRate?: number; // bpm; every beat lasts 60 / heartRate seconds
+  snrDb?: number;
+  // S4, clicks, opening snap and friction rub: timing (ms, see EVENT_DEFAULTS) and peak relative to S1
+  eventTimingMs?: number | null;
+  eventIntensity?: number | null;
+  // systolic_murmur and diastolic_murmur: unset fields take the phase default (see MURMUR_DEFAULTS)
+  murmur?: Partial<MurmurProfile> | null;
+  // s2_split: how the A2-P2 interval follows respiration (see S2_SPLIT_MS)
+  splitMode?: S2SplitMode;
+  respRate?: number; // breaths/min, for the S2 split and the sinus arrhythmia
+  hrv?: HrvOptions | null; // RR tachogram around heartRate (null = every beat lasts 60 / heartRate)
+  seed?: number | null; // master seed (null = random, returned as `seed`)
+};
+
+export function simulateHeartDataset(opts: HeartSimOptions = {}): HeartSimOutput {
+  return simulateHeartSample(opts, createSeedStreams(opts.seed), 0);
+}
+
+// `samples` independent recordings; sample k > 0 draws from the master seed's "sample:k" child streams
+export function simulateHeartSamples(opts: HeartSimOptions & { samples?: number } = {}): HeartSimOutput[] {
+  const root = createSeedStreams(opts.seed);
+  const out: HeartSimOutput[] = [];
+  for (let k = 0; k < Math.max(1, Math.floor(opts.samples ?? 1)); k++) {
+    out.push(simulateHeartSample(opts, k === 0 ? root : root.child(`sample:${k}`), k));
+  }
+  return out;
+}
+
+function simulateHeartSample(opts: HeartSimOptions, streams: SeedStreams, sampleIndex: number): HeartSimOutput {
   const cycles = opts.cycles ?? 10;
   const fs = opts.fs ?? 1000;
-  const beatLengthSec = 1.2;
-
-  const rng = seededRandom(2025);
-  const { pcg, s1Times, s2Times } = simulateMultibeat(
+  const heartRate = opts.heartRate ?? 50;
+  const snrDb = opts.snrDb ?? 6;
+  const abnormal = opts.abnormal ?? null;
+  const respRate = opts.respRate ?? 15;
+  const respPhase = 2 * Math.PI * streams.stream("respiration")();
+  const hrv = opts.hrv ? { ...HRV_DEFAULTS, ...opts.hrv } : null;
+  const rr = hrv
+    ? generateRRTachogram(cycles, heartRate, respRate, respPhase, streams.stream("hrv"), hrv)
+    : new Array<number>(cycles).fill(60 / heartRate);
+  const phase = murmurPhase(abnormal);
+  const murmur = phase ? murmurAnnotation(phase, opts.murmur, fs) : null;
+  // S2 of every beat sits at a fixed fraction of it, so the breath can be sampled before rendering
+  const onsets = beatOnsets(rr, fs);
+  const s2Split = abnormal === "s2_split"
+    ? s2SplitSchedule(
+      opts.splitMode ?? "physiological",
+      respRate,
+      rr.map((r, b) => defaultParams.t_s2_ratio * r + onsets[b]),
+      respPhase
+    )
+    : null;
+
+  const { pcg, s1Times, s2Times, rr: beatRR } = simulateMultibeat(
     cycles,
     fs,
-    beatLengthSec,
+    rr,
     defaultParams,
-    opts.abnormal,
-    6,
-    rng
+    abnormal ?? undefined,
+    snrDb,
+    streams.stream("beats"),
+    streams.stream("noise"),
+    murmur,
+    // the renderer takes the paradoxical split as negative: P2 leads
+    s2Split && s2Split.splitMs.map((v) => (s2Split.mode === "paradoxical" ? -v : v))
   );
 
+  let events: HeartSoundEvent[] = [];
+  let eventTimingMs: number | null = null, eventIntensity: number | null = null;
+  if (isExtraSound(abnormal)) {
+    const defaults = EVENT_DEFAULTS[abnormal];
+    eventTimingMs = opts.eventTimingMs ?? defaults.timingMs;
+    eventIntensity = opts.eventIntensity ?? defaults.intensity;
+    events = addExtraSounds(pcg, fs, beatRR, s1Times, s2Times, abnormal, eventTimingMs, eventIntensity, streams.stream("events"));
+  } else if (abnormal) {
+    events = beatEvents(abnormal, fs, beatRR, s1Times, s2Times, murmur, s2Split);
+  }
+
   const t = new Array<number>(pcg.length);
   for (let i = 0; i < pcg.length; i++) t[i] = i / fs;
 
-
-  return { t, y: pcg };
+  return {
+    t,
+    y: pcg,
+    seed: streams.seed,
+    meta: {
+      fs, abnormal, s1Times, s2Times, rr: beatRR, events, murmur, s2Split,
+      params: {
+        sampleIndex, seed: streams.seed, cycles, heartRate, snrDb, eventTimingMs, eventIntensity, respRate,
+        sdnnMs: hrv?.sdnnMs ?? null, lfHfRatio: hrv?.lfHfRatio ?? null,
+      },
+    },
+  };
 }
 
 export function resampleToLength(
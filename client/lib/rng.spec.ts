@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { createSeedStreams, deriveSeed } from "./rng";
+
+describe("createSeedStreams", () => {
+  it("should replay a named substream from the same master seed", () => {
+    const a = createSeedStreams(42).stream("beats");
+    const b = createSeedStreams(42).stream("beats");
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  it("should give different names independent seeds", () => {
+    const streams = createSeedStreams(42);
+    expect(streams.seedOf("beats")).not.toBe(streams.seedOf("noise"));
+    expect(streams.child("sample:1").seed).toBe(deriveSeed(42, "sample:1"));
+  });
+
+  it("should report the random master seed it drew", () => {
+    const streams = createSeedStreams(null);
+    expect(createSeedStreams(streams.seed).seedOf("uc")).toBe(streams.seedOf("uc"));
+  });
+});
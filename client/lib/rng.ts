@@ -0,0 +1,67 @@
+// Seeded random streams shared by the fpcg, pcg and lung generators
+// One master seed derives named substreams (beats, noise, movement, uc, crackles, ...), so any
+// recording can be regenerated bit-for-bit from that seed alone.
+
+export type RNG = () => number;
+
+// Mulberry32
+export function mulberry32(seed: number): RNG {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Unseeded (null) falls back to Math.random
+export function seededRng(seed?: number | null): RNG {
+  return seed == null ? Math.random : mulberry32(seed);
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Box-Muller
+export function gaussian(rand: RNG): number {
+  let u = 0,
+    v = 0;
+  while (u === 0) u = rand();
+  while (v === 0) v = rand();
+  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+}
+
+// FNV-1a over the stream name, mixed with the parent seed and finalized (murmur3 fmix32)
+export function deriveSeed(seed: number, name: string): number {
+  let h = (0x811c9dc5 ^ (seed >>> 0)) >>> 0;
+  for (let i = 0; i < name.length; i++) {
+    h ^= name.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+export type SeedStreams = {
+  seed: number;
+  seedOf: (name: string) => number;
+  stream: (name: string) => RNG;
+  child: (name: string) => SeedStreams;
+};
+
+// Null master seed draws a random one; it is kept on `seed` so the run can be reported and replayed.
+export function createSeedStreams(master?: number | null): SeedStreams {
+  const seed = master == null ? randomSeed() : master >>> 0;
+  return {
+    seed,
+    seedOf: (name) => deriveSeed(seed, name),
+    stream: (name) => mulberry32(deriveSeed(seed, name)),
+    child: (name) => createSeedStreams(deriveSeed(seed, name)),
+  };
+}
@@ -0,0 +1,46 @@
+// Abdominal sensor-array geometry for the fPCG simulator
+// Sensors sit on the abdominal surface. Positions are in metres, x towards the mother's left and y towards
+// her head. The origin is the point right above the fetal heart, where the single-channel model puts its
+// sensor, unless a fetal presentation is given: then the origin is the umbilicus and the presentation and
+// the side of the fetal back place the heart.
+
+export type SensorPosition = { x: number; y: number };
+// depth below the abdominal surface (m)
+export type SourcePosition = { x: number; y: number; depth: number };
+
+export type SensorLayout = "quad" | "line4";
+
+export const SENSOR_LAYOUTS: Record<SensorLayout, SensorPosition[]> = {
+  quad: [
+    { x: -0.05, y: 0.05 }, { x: 0.05, y: 0.05 },
+    { x: -0.05, y: -0.05 }, { x: 0.05, y: -0.05 },
+  ],
+  line4: [-0.09, -0.03, 0.03, 0.09].map((x) => ({ x, y: 0 })),
+};
+
+// Maternal heart: well above the fundus and deeper than the fetus
+export const DEFAULT_MATERNAL_HEART: SourcePosition = { x: 0.02, y: 0.3, depth: 0.08 };
+
+export type FetalPresentation = "cephalic" | "breech" | "transverse";
+export type FetalBack = "left" | "right"; // maternal side the fetal back faces
+
+// Where the heart sounds are loudest: below the umbilicus on the side of the back for a cephalic fetus,
+// above it for a breech, close to the midline for a transverse lie
+export function fetal_heart_offset(presentation: FetalPresentation, back: FetalBack): SensorPosition {
+  const side = back === "left" ? 1 : -1;
+  if (presentation === "cephalic") return { x: 0.07 * side, y: -0.07 };
+  if (presentation === "breech") return { x: 0.06 * side, y: 0.07 };
+  return { x: 0.03 * side, y: -0.01 };
+}
+
+export function source_distance(sensor: SensorPosition, source: SourcePosition) {
+  return Math.hypot(sensor.x - source.x, sensor.y - source.y, source.depth);
+}
+
+// Straight path from a fetal source to a sensor. It crosses the uterine (r1) and wall (r2) layers at the
+// same slant, so both scale by slant = distance / depth; gain is spherical spreading relative to the point above.
+export function fetal_path(sensor: SensorPosition, source: SourcePosition, r1: number, r2: number) {
+  const d = source_distance(sensor, source);
+  const k = d / source.depth;
+  return { r1: r1 * k, r2: r2 * k, slant: k, gain: source.depth / d };
+}
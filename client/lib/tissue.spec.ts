@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { fat_thickness_from_bmi, scale_layers, tissue_kernel, tissue_layers, tissue_loss_db, tissue_spreading_gain } from "./tissue";
+
+describe("tissue_layers", () => {
+  it("should thicken the fat with BMI and add the placenta only when anterior", () => {
+    expect(fat_thickness_from_bmi(40)).toBeGreaterThan(fat_thickness_from_bmi(22));
+    expect(tissue_layers({ placenta: "posterior" }, 0.01).some((l) => l.type === "placenta")).toBe(false);
+    expect(tissue_layers({ placenta: "anterior" }, 0.01).some((l) => l.type === "placenta")).toBe(true);
+    const layers = [{ type: "skin" as const, thickness_m: 0.01 }];
+    expect(tissue_layers({ bmi: 40, layers }, 0.01)).toBe(layers);
+  });
+
+  it("should attenuate high frequencies more, and more through thicker stacks", () => {
+    const lean = tissue_layers({ bmi: 20 }, 0.01), obese = tissue_layers({ bmi: 40 }, 0.01);
+    expect(tissue_loss_db(lean, 0)).toBe(0);
+    expect(tissue_loss_db(lean, 200)).toBeGreaterThan(tissue_loss_db(lean, 50));
+    expect(tissue_loss_db(obese, 100)).toBeGreaterThan(tissue_loss_db(lean, 100));
+    expect(tissue_loss_db(scale_layers(lean, 2), 100)).toBeCloseTo(2 * tissue_loss_db(lean, 100), 9);
+  });
+});
+
+describe("tissue_kernel", () => {
+  it("should be symmetric with the spreading gain at DC", () => {
+    const layers = tissue_layers({ bmi: 30 }, 0.01);
+    const { h, center } = tissue_kernel(layers, 2000);
+    expect(h).toHaveLength(2 * center + 1);
+    for (let j = 1; j <= center; j++) expect(h[center + j]).toBeCloseTo(h[center - j], 12);
+    const dc = h.reduce((s, v) => s + v, 0);
+    expect(dc).toBeCloseTo(tissue_spreading_gain(layers), 2);
+  });
+});
@@ -0,0 +1,112 @@
+// Layered-tissue acoustic path for the fPCG simulator
+// Fetal heart sounds reach the abdominal sensor through amniotic fluid, possibly the placenta, the uterine
+// wall, subcutaneous fat and skin. Each layer attenuates with a power law in frequency, so thick layers
+// (fat at high BMI, an anterior placenta) both lower the level and darken the spectrum, on top of the
+// spherical spreading over the longer path. The path is applied as one zero-phase FIR designed in the
+// frequency domain, plus the summed travel time.
+
+import { fft } from "./dsp";
+
+export type TissueLayerType = "amniotic_fluid" | "placenta" | "uterine_wall" | "fat" | "skin";
+
+export type TissueLayer = {
+  type: TissueLayerType;
+  thickness_m: number;
+  c?: number; // sound speed (m/s)
+  alpha_db_cm?: number; // attenuation at 100 Hz (dB/cm)
+  power?: number; // alpha(f) = alpha_db_cm * (f / 100 Hz)^power
+};
+
+type LayerProperties = { c: number; alpha_db_cm: number; power: number };
+export const TISSUE_PROPERTIES: Record<TissueLayerType, LayerProperties> = {
+  amniotic_fluid: { c: 1530, alpha_db_cm: 0.05, power: 2 },
+  placenta: { c: 1570, alpha_db_cm: 0.6, power: 1.2 },
+  uterine_wall: { c: 1580, alpha_db_cm: 0.5, power: 1.1 },
+  fat: { c: 1450, alpha_db_cm: 1.2, power: 1.3 },
+  skin: { c: 1600, alpha_db_cm: 0.8, power: 1.1 },
+};
+
+// Depth at which spreading leaves the level unchanged (a lean abdomen near term)
+export const TISSUE_REFERENCE_DEPTH_M = 0.04;
+
+export type PlacentaPosition = "anterior" | "posterior" | "fundal";
+
+// Either explicit layers, or a stack derived from maternal BMI and placental site
+export type TissueOptions = {
+  bmi?: number;
+  placenta?: PlacentaPosition; // only an anterior placenta lies between the fetal heart and the sensor
+  placenta_thickness_m?: number;
+  uterine_wall_m?: number;
+  skin_m?: number;
+  fat_m?: number; // overrides the BMI estimate
+  layers?: TissueLayer[]; // used as given, for every fetus and sensor path
+};
+
+// Subcutaneous abdominal fat grows roughly linearly with BMI: ~1.5 cm at 20, ~6.5 cm at 40
+export function fat_thickness_from_bmi(bmi: number) {
+  return Math.max(0.005, 0.0025 * (bmi - 14));
+}
+
+// Layer stack from the fetal heart outwards; fluid_m is the intrauterine path (r1 of the simple model)
+export function tissue_layers(opts: TissueOptions, fluid_m: number): TissueLayer[] {
+  if (opts.layers) return opts.layers;
+  const {
+    bmi = 25,
+    placenta = "posterior",
+    placenta_thickness_m = 0.025,
+    uterine_wall_m = 0.008,
+    skin_m = 0.002,
+    fat_m = fat_thickness_from_bmi(bmi),
+  } = opts;
+  const layers: TissueLayer[] = [{ type: "amniotic_fluid", thickness_m: fluid_m }];
+  if (placenta === "anterior") layers.push({ type: "placenta", thickness_m: placenta_thickness_m });
+  layers.push({ type: "uterine_wall", thickness_m: uterine_wall_m }, { type: "fat", thickness_m: fat_m }, { type: "skin", thickness_m: skin_m });
+  return layers;
+}
+
+// Oblique paths (sensor away from the point above the heart) cross every layer longer by the same factor
+export function scale_layers(layers: TissueLayer[], k: number): TissueLayer[] {
+  return layers.map((l) => ({ ...l, thickness_m: l.thickness_m * k }));
+}
+
+export function layers_depth(layers: TissueLayer[]) {
+  return layers.reduce((s, l) => s + l.thickness_m, 0);
+}
+
+// Total one-way loss (dB) of the stack at frequency f (Hz)
+export function tissue_loss_db(layers: TissueLayer[], f: number) {
+  let db = 0;
+  for (const l of layers) {
+    const p = TISSUE_PROPERTIES[l.type];
+    db += (l.alpha_db_cm ?? p.alpha_db_cm) * Math.pow(f / 100, l.power ?? p.power) * 100 * l.thickness_m;
+  }
+  return db;
+}
+
+export function tissue_delay_sec(layers: TissueLayer[]) {
+  return layers.reduce((s, l) => s + l.thickness_m / (l.c ?? TISSUE_PROPERTIES[l.type].c), 0);
+}
+
+// 1/r spreading relative to TISSUE_REFERENCE_DEPTH_M
+export function tissue_spreading_gain(layers: TissueLayer[]) {
+  return TISSUE_REFERENCE_DEPTH_M / Math.max(1e-3, layers_depth(layers));
+}
+
+// Zero-phase FIR of the stack's magnitude response with spreading (Hann-windowed); h[center] is time zero
+export function tissue_kernel(layers: TissueLayer[], fs: number, n_fft = 512) {
+  const re = new Float64Array(n_fft), im = new Float64Array(n_fft);
+  const spread = tissue_spreading_gain(layers);
+  for (let k = 0; k <= n_fft / 2; k++) {
+    const mag = spread * Math.pow(10, -tissue_loss_db(layers, (k * fs) / n_fft) / 20);
+    re[k] = mag;
+    if (k > 0 && k < n_fft / 2) re[n_fft - k] = mag;
+  }
+  fft(re, im, true);
+  const center = n_fft / 2 - 1;
+  const h = new Array<number>(2 * center + 1);
+  for (let j = -center; j <= center; j++) {
+    const w = 0.5 + 0.5 * Math.cos((Math.PI * j) / (center + 1));
+    h[center + j] = w * re[(j + n_fft) % n_fft];
+  }
+  return { h, center };
+}
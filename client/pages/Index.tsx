@@ -1,21 +1,112 @@
 import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
-import { Download, Play, Settings, Activity, Heart, Stethoscope } from "lucide-react";
-import { simulateFpcgDataset, resampleToLength } from "@/lib/fpcg";
+import { AudioWaveform, Download, FileJson, HeartPulse, Play, Settings, Activity, Heart, Stethoscope, TrendingDown, TrendingUp, Waves } from "lucide-react";
+import type { CtgTrace } from "@/lib/ctg";
+import type { DopplerTrace } from "@/lib/doppler";
+import type { FecgTrace } from "@/lib/fecg";
+import { GA_RANGE } from "@/lib/gestation";
+import { createSeedStreams } from "@/lib/rng";
+import { simulateFpcgSample, simulateFpcgSamples, resampleToLength, type FpcgMeta, type SensorChannelMeta, type SimOptions } from "@/lib/fpcg";
+import { simulateHeartSamples } from "@/lib/pcg";
+import { SENSOR_LAYOUTS, fetal_heart_offset } from "@/lib/sensors";
+import type { HeartAbnormality, HeartSimMeta, MurmurProfile, S2SplitMode } from "@shared/api";
 
 type DataPoint = { timestamp: number; value: number; type: string; series: number };
+// Ground-truth labels are kept in source-sample indices; export_length maps them onto the resampled CSV timestamps.
+// Array recordings export one series per (sample, channel); `channel` then holds that sensor's path and labels.
+// Doppler valve events are indexed at the Doppler rate (doppler.fs), not the exported series; ECG R-peaks share meta.fs.
+// Fetal meta drops the per-sample movement/UC masks; movement_events and uc_events carry the same [start, end) runs.
+// Adult recordings carry HeartSimMeta instead, with S1/S2 times in seconds.
+type SeriesAnnotations = {
+  series: number;
+  source_length: number;
+  export_length: number;
+  meta: FpcgLabel | HeartSimMeta;
+  channel?: ChannelLabel;
+  doppler?: DopplerLabel;
+  ecg?: EcgLabel;
+};
+type ChannelLabel = SensorChannelMeta & { sample: number; index: number };
+type DopplerLabel = Omit<DopplerTrace, "t" | "y">;
+type EcgLabel = Pick<FecgTrace, "fetal_r" | "maternal_r" | "fetal_emd_sec">;
+type FpcgLabel = Omit<FpcgMeta, "movement_mask" | "uc_mask">;
+type GeneratedSeries = { values: number[]; meta?: FpcgLabel | HeartSimMeta; sourceLength?: number; ctg?: CtgTrace; doppler?: DopplerTrace; fecg?: FecgTrace; channel?: ChannelLabel };
+// seed null = random master seed; the realized one is reported back through the series meta.
+// heartRate, snrDb, fs and sdnnMs (null = no HRV) only apply to the adult types, eventTimingMs/eventIntensity
+// (null = default) to ADULT_EVENT_TYPES, murmurGrade (null = the profile's grade) to ADULT_MURMUR_TYPES, and
+// respRate to ADULT_SPLIT_TYPES and the HRV.
+type GenRequest = {
+  count: number; cycles: number; samples: number; seed: number | null; gestationalAgeWeeks: number | null;
+  heartRate: number; snrDb: number; fs: number; eventTimingMs: number | null; eventIntensity: number | null; murmurGrade: number | null;
+  respRate: number; sdnnMs: number | null;
+};
+const ADULT_EVENT_TYPES = ["pcg_s4", "pcg_ejection_click", "pcg_midsystolic_click", "pcg_opening_snap", "pcg_friction_rub"];
+const ADULT_SPLIT_TYPES = ["pcg_s2_split", "pcg_s2_split_wide", "pcg_s2_split_fixed", "pcg_s2_split_paradoxical"];
+const ADULT_MURMUR_TYPES = ["pcg_systolic_murmur", "pcg_diastolic_murmur", "pcg_murmur_as", "pcg_murmur_mr", "pcg_murmur_ar", "pcg_murmur_ms"];
 
 const dataTypes = [
   { id: "fhs_normal", name: "Normal", icon: Heart, description: "Standard fetal cardiac sounds", category: "Fetal Heart Sounds" },
-  { id: "fhs_arrhythmia", name: "Arrhythmia", icon: Activity, description: "Irregular RR intervals", category: "Fetal Heart Sounds" },
+  { id: "fhs_arrhythmia", name: "Irregular RR", icon: Activity, description: "Random beat-to-beat RR jitter", category: "Fetal Heart Sounds" },
+  { id: "fhs_brady", name: "Sinus Bradycardia", icon: TrendingDown, description: "Sinus rhythm below 110 bpm", category: "Fetal Heart Sounds" },
+  { id: "fhs_tachy", name: "Sinus Tachycardia", icon: TrendingUp, description: "Sinus rhythm above 160 bpm", category: "Fetal Heart Sounds" },
+  { id: "fhs_pac", name: "PACs", icon: Activity, description: "Premature atrial beats with compensatory pauses", category: "Fetal Heart Sounds" },
+  { id: "fhs_blocked_pac", name: "Blocked PACs", icon: Activity, description: "Non-conducted premature beats leaving pauses", category: "Fetal Heart Sounds" },
+  { id: "fhs_av_block_2to1", name: "2:1 AV Block", icon: TrendingDown, description: "Every second atrial beat conducted", category: "Fetal Heart Sounds" },
+  { id: "fhs_av_block_complete", name: "Complete AV Block", icon: TrendingDown, description: "Slow ventricular escape rhythm", category: "Fetal Heart Sounds" },
+  { id: "fhs_svt", name: "SVT", icon: HeartPulse, description: "Sustained tachycardia at 220+ bpm", category: "Fetal Heart Sounds" },
+  { id: "fhs_murmur_vsd", name: "VSD Murmur", icon: Waves, description: "Holosystolic murmur of a ventricular septal defect", category: "Fetal Heart Sounds" },
+  { id: "fhs_murmur_tr", name: "Tricuspid Regurgitation", icon: Waves, description: "Low-pitched holosystolic regurgitant murmur", category: "Fetal Heart Sounds" },
+  { id: "fhs_murmur_outflow", name: "Outflow Obstruction", icon: Waves, description: "Crescendo-decrescendo ejection murmur", category: "Fetal Heart Sounds" },
+  { id: "fhs_accel", name: "Accelerations", icon: TrendingUp, description: "Reactive FHR with frequent accelerations", category: "Fetal Heart Sounds" },
+  { id: "fhs_sinusoidal", name: "Sinusoidal FHR", icon: Waves, description: "Smooth sinusoidal heart-rate pattern", category: "Fetal Heart Sounds" },
+  { id: "fhs_decel_early", name: "Early Decelerations", icon: TrendingDown, description: "Decels mirroring each contraction", category: "Fetal Heart Sounds" },
+  { id: "fhs_decel_late", name: "Late Decelerations", icon: TrendingDown, description: "Decels lagging each contraction", category: "Fetal Heart Sounds" },
+  { id: "fhs_decel_variable", name: "Variable Decelerations", icon: TrendingDown, description: "Abrupt V-shaped decels", category: "Fetal Heart Sounds" },
+  { id: "fhs_decel_prolonged", name: "Prolonged Deceleration", icon: TrendingDown, description: "FHR drop lasting over 2 minutes", category: "Fetal Heart Sounds" },
+  { id: "fhs_labor", name: "Labor (Full)", icon: TrendingUp, description: "60 min from latent phase to pushing, stage-labeled", category: "Fetal Heart Sounds" },
+  { id: "fhs_labor_first", name: "First-Stage Labor", icon: TrendingUp, description: "40 min of latent and active phase contractions", category: "Fetal Heart Sounds" },
+  { id: "fhs_labor_second", name: "Second-Stage Labor", icon: TrendingUp, description: "20 min of pushing with Valsalva and movement artifacts", category: "Fetal Heart Sounds" },
+  { id: "fhs_states", name: "Behavioral States", icon: Activity, description: "Sleep/wake states 1F-4F driving FHR and movement", category: "Fetal Heart Sounds" },
+  { id: "fhs_twins", name: "Twins", icon: Heart, description: "Two fetal hearts at different rates and depths", category: "Fetal Heart Sounds" },
+  { id: "fhs_array", name: "Sensor Array (4 ch)", icon: Stethoscope, description: "Four abdominal sensors, one series per channel", category: "Fetal Heart Sounds" },
+  { id: "fhs_high_bmi", name: "High BMI", icon: TrendingDown, description: "Layered tissue path through thick abdominal fat", category: "Fetal Heart Sounds" },
+  { id: "fhs_anterior_placenta", name: "Anterior Placenta", icon: TrendingDown, description: "Placenta between the fetal heart and the sensor", category: "Fetal Heart Sounds" },
+  { id: "fhs_spot_good", name: "Sensor on Target", icon: Stethoscope, description: "Sensor over the fetal heart (cephalic, back left)", category: "Fetal Heart Sounds" },
+  { id: "fhs_spot_bad", name: "Sensor off Target", icon: Stethoscope, description: "Sensor in the opposite quadrant from the fetal heart", category: "Fetal Heart Sounds" },
+  { id: "fhs_mhr_pickup", name: "Maternal Pickup", icon: HeartPulse, description: "Faded fetal signal under louder maternal heart sounds", category: "Fetal Heart Sounds" },
+  { id: "fhs_mhr_tachy", name: "Maternal Tachycardia", icon: HeartPulse, description: "Maternal rate climbing to the fetal rate", category: "Fetal Heart Sounds" },
+  { id: "fhs_mhr_half", name: "Maternal at Half FHR", icon: HeartPulse, description: "Maternal rate at half the fetal rate", category: "Fetal Heart Sounds" },
+  { id: "fhs_mhr_double", name: "Maternal at Double FHR", icon: HeartPulse, description: "Bradycardic fetus, maternal rate at twice it", category: "Fetal Heart Sounds" },
+  { id: "fhs_maternal", name: "Maternal Interference", icon: Waves, description: "Breathing, bowel sounds, aortic pulse, voice and cough", category: "Fetal Heart Sounds" },
+  { id: "fhs_doppler", name: "Paired Doppler", icon: AudioWaveform, description: "fPCG with time-aligned handheld Doppler audio", category: "Fetal Heart Sounds" },
+  { id: "fhs_fecg", name: "Paired Abdominal ECG", icon: HeartPulse, description: "fPCG with time-locked fECG/mECG stems", category: "Fetal Heart Sounds" },
   { id: "fhs_move_strong", name: "Strong Movement", icon: Activity, description: "Enhanced movement artifacts", category: "Fetal Heart Sounds" },
   { id: "fhs_move_weak", name: "Weak Movement", icon: Activity, description: "Reduced movement artifacts", category: "Fetal Heart Sounds" },
   { id: "fhs_uc_fast", name: "Fast Contractions", icon: Activity, description: "Frequent uterine contractions", category: "Fetal Heart Sounds" },
   { id: "fhs_uc_slow", name: "Slow Contractions", icon: Activity, description: "Infrequent/longer contractions", category: "Fetal Heart Sounds" },
+  { id: "pcg_normal", name: "Normal", icon: Heart, description: "S1 and S2 only", category: "Adult Heart Sounds" },
+  { id: "pcg_systolic_murmur", name: "Systolic Murmur", icon: Waves, description: "Decrescendo noise between S1 and S2", category: "Adult Heart Sounds" },
+  { id: "pcg_diastolic_murmur", name: "Diastolic Murmur", icon: Waves, description: "Noise from S2 to the next S1", category: "Adult Heart Sounds" },
+  { id: "pcg_murmur_as", name: "Aortic Stenosis", icon: Waves, description: "Mid-systolic crescendo-decrescendo murmur", category: "Adult Heart Sounds" },
+  { id: "pcg_murmur_mr", name: "Mitral Regurgitation", icon: Waves, description: "High-pitched holosystolic plateau murmur", category: "Adult Heart Sounds" },
+  { id: "pcg_murmur_ar", name: "Aortic Regurgitation", icon: Waves, description: "High-pitched early-diastolic decrescendo murmur", category: "Adult Heart Sounds" },
+  { id: "pcg_murmur_ms", name: "Mitral Stenosis", icon: Waves, description: "Low mid-diastolic rumble with presystolic accentuation", category: "Adult Heart Sounds" },
+  { id: "pcg_s2_split", name: "Split S2", icon: Activity, description: "Physiological split widening on inspiration", category: "Adult Heart Sounds" },
+  { id: "pcg_s2_split_wide", name: "Wide Split S2", icon: Activity, description: "Late P2 through the whole breath (RBBB)", category: "Adult Heart Sounds" },
+  { id: "pcg_s2_split_fixed", name: "Fixed Split S2", icon: Activity, description: "Split that ignores respiration (ASD)", category: "Adult Heart Sounds" },
+  { id: "pcg_s2_split_paradoxical", name: "Paradoxical Split S2", icon: Activity, description: "P2 before A2, widest on expiration (LBBB)", category: "Adult Heart Sounds" },
+  { id: "pcg_s3", name: "S3 Gallop", icon: HeartPulse, description: "Low-pitched third sound in early diastole", category: "Adult Heart Sounds" },
+  { id: "pcg_s4", name: "S4 Gallop", icon: HeartPulse, description: "Low-pitched presystolic sound before S1", category: "Adult Heart Sounds" },
+  { id: "pcg_ejection_click", name: "Ejection Click", icon: Activity, description: "Sharp early-systolic click after S1", category: "Adult Heart Sounds" },
+  { id: "pcg_midsystolic_click", name: "Mid-Systolic Click", icon: Activity, description: "Mitral valve prolapse click", category: "Adult Heart Sounds" },
+  { id: "pcg_opening_snap", name: "Opening Snap", icon: Activity, description: "Mitral stenosis snap after S2", category: "Adult Heart Sounds" },
+  { id: "pcg_friction_rub", name: "Friction Rub", icon: Waves, description: "Three-component pericardial rub", category: "Adult Heart Sounds" },
 ];
 
 // Group data types by category
@@ -44,39 +135,187 @@ function synthBase(len: number, opts: { baseFreq: number; jitter?: number; overt
   return out;
 }
 
-// Fetal heart sounds via Python-ported simulator (simulateFpcgDataset)
-function genFhsNormal(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: false, uc_enabled: false });
-  return resampleToLength(t, y, count);
+// Full-length 0/1 masks would dominate a labor recording's annotations (millions of samples each)
+function fpcgLabel({ movement_mask, uc_mask, ...meta }: FpcgMeta): FpcgLabel {
+  return meta;
+}
+// Fetal heart sounds via Python-ported simulator; one independent sample per series, generated one at a time
+// so only the resampled `values` outlive each full-length recording (labor presets run up to an hour at 1 kHz)
+function genFetal({ count, cycles, samples, seed, gestationalAgeWeeks }: GenRequest, opts: SimOptions): GeneratedSeries[] {
+  const dataset: SimOptions = {
+    cycles_per_sample: Math.max(1, Math.floor(cycles)),
+    num_samples: samples,
+    gestational_age_weeks: gestationalAgeWeeks ?? undefined,
+    ...opts,
+    seed: createSeedStreams(seed).seed, // resolved once so the samples share it
+  };
+  const out: GeneratedSeries[] = [];
+  for (let k = 0; k < Math.max(1, Math.floor(samples)); k++) {
+    const { t, y, meta, ctg, doppler, fecg } = simulateFpcgSample(dataset, k);
+    out.push({ values: resampleToLength(t, y, count), meta: fpcgLabel(meta), sourceLength: y.length, ctg, doppler: doppler ?? undefined, fecg: fecg ?? undefined });
+  }
+  return out;
+}
+function genFhsNormal(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false });
+}
+function genFhsArrhythmia(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, fhr_model: "jitter", rr_std_frac: 0.15 });
+}
+function genFhsRhythm(req: GenRequest, rhythm: SimOptions["rhythm"]) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, rhythm });
+}
+function genFhsMurmur(req: GenRequest, type: NonNullable<SimOptions["murmur"]>["type"]) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, murmur: { type, severity: 0.6 } });
+}
+function genFhsAccel(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, fhr_accel_rate_per_10min: 5, fhr_accel_amplitude_bpm: 20 });
+}
+function genFhsSinusoidal(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, fhr_pattern: "sinusoidal", fhr_sinusoidal_amplitude_bpm: 12 });
+}
+// Decelerations need contractions; longer UCs so each decel is clearly resolved
+function genFhsDecel(req: GenRequest, decel_mode: SimOptions["decel_mode"]) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 4, uc_duration_range: [40, 80], decel_mode });
+}
+// Dwell times compressed from tens of minutes so short recordings still cross state boundaries
+function genFhsStates(req: GenRequest) {
+  return genFetal(req, { uc_enabled: false, behavioral_states: { mean_duration_min: { "1F": 0.5, "2F": 0.5, "3F": 0.25, "4F": 0.5 } } });
+}
+// Labor presets are one continuous recording each, so they set their own length instead of the cycle count
+function genFhsLabor(req: GenRequest, stages: NonNullable<SimOptions["labor"]>["stages"], minutes: number) {
+  return genFetal(req, { duration_sec: 60 * minutes, labor: { stages } });
+}
+function genFhsTwins(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, twin: { fhr: 128, r1: 0.035, A1: 0.8 } });
+}
+function genFhsArray({ count, cycles, samples, seed, gestationalAgeWeeks }: GenRequest): GeneratedSeries[] {
+  const outputs = simulateFpcgSamples({
+    cycles_per_sample: Math.max(1, Math.floor(cycles)),
+    num_samples: samples,
+    seed,
+    gestational_age_weeks: gestationalAgeWeeks ?? undefined,
+    sensors: SENSOR_LAYOUTS.quad,
+  });
+  return outputs.flatMap(({ t, meta, ctg, channels }, sample) =>
+    channels.map(({ y, meta: channel }, index) => ({
+      values: resampleToLength(t, y, count), meta: fpcgLabel(meta), sourceLength: y.length, ctg, channel: { ...channel, sample, index },
+    })),
+  );
 }
-function genFhsArrhythmia(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: false, uc_enabled: false, rr_std_frac: 0.15 });
-  return resampleToLength(t, y, count);
+function genFhsTissue(req: GenRequest, tissue: SimOptions["tissue"]) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, tissue });
 }
-function genFhsMoveStrong(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: true, movement_intensity: 2.0, movement_rate_per_min: 12, uc_enabled: false });
-  return resampleToLength(t, y, count);
+// Placement-guidance pairs: same fetus, sensor over the heart or mirrored through the umbilicus
+function genFhsSpot(req: GenRequest, on_target: boolean) {
+  const heart = fetal_heart_offset("cephalic", "left");
+  const sensor_position = on_target ? heart : { x: -heart.x, y: -heart.y };
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, presentation: "cephalic", fetal_back: "left", sensor_position });
 }
-function genFhsMoveWeak(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: true, movement_intensity: 0.4, movement_rate_per_min: 4, uc_enabled: false });
-  return resampleToLength(t, y, count);
+// Maternal-rate pickup: sensor off the fetal heart, contractions fading it, louder maternal S1/S2
+function genFhsPickup(req: GenRequest, opts: SimOptions = {}) {
+  const heart = fetal_heart_offset("cephalic", "left");
+  return genFetal(req, {
+    movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 5, uc_duration_range: [30, 50], uc_attenuation: 0.9,
+    presentation: "cephalic", fetal_back: "left", sensor_position: { x: -heart.x, y: -heart.y },
+    maternal_s1_amp: 0.06, maternal_s2_amp: 0.03, ...opts,
+  });
 }
-function genFhsUcFast(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 6.0, uc_duration_range: [10, 20] });
-  return resampleToLength(t, y, count);
+function genFhsMaternal(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, maternal_interference: { bowel_rate_per_min: 3, voice_rate_per_min: 2 } });
 }
-function genFhsUcSlow(count: number, cycles: number) {
-  const { t, y } = simulateFpcgDataset({ cycles_per_sample: Math.max(1, Math.floor(cycles)), movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 1.0, uc_duration_range: [20, 40] });
-  return resampleToLength(t, y, count);
+function genFhsDoppler(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, doppler: {} });
+}
+function genFhsFecg(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: false, fecg: {} });
+}
+function genFhsMoveStrong(req: GenRequest) {
+  return genFetal(req, { movement_enabled: true, movement_intensity: 2.0, movement_rate_per_min: 12, uc_enabled: false });
+}
+function genFhsMoveWeak(req: GenRequest) {
+  return genFetal(req, { movement_enabled: true, movement_intensity: 0.4, movement_rate_per_min: 4, uc_enabled: false });
+}
+function genFhsUcFast(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 6.0, uc_duration_range: [10, 20] });
+}
+function genFhsUcSlow(req: GenRequest) {
+  return genFetal(req, { movement_enabled: false, uc_enabled: true, uc_rate_per_10min: 1.0, uc_duration_range: [20, 40] });
 }
 
-const generators: Record<string, (count: number, cycles: number) => number[]> = {
+// Adult heart sounds via pcg.ts; one independent recording per series, cycles = beats
+function genAdult(
+  req: GenRequest,
+  abnormal: HeartAbnormality | null,
+  murmurProfile: Partial<MurmurProfile> = {},
+  splitMode: S2SplitMode = "physiological",
+): GeneratedSeries[] {
+  const { count, cycles, samples, seed, heartRate, snrDb, fs, eventTimingMs, eventIntensity, murmurGrade, respRate, sdnnMs } = req;
+  const murmur = { ...murmurProfile, ...(murmurGrade && { grade: murmurGrade }) };
+  return simulateHeartSamples({
+    cycles: Math.max(1, Math.floor(cycles)), samples, seed, fs, heartRate, snrDb, abnormal, eventTimingMs, eventIntensity, murmur, splitMode, respRate,
+    hrv: sdnnMs ? { sdnnMs } : null,
+  })
+    .map(({ t, y, meta }) => ({ values: resampleToLength(t, y, count), meta, sourceLength: y.length }));
+}
+
+const generators: Record<string, (req: GenRequest) => GeneratedSeries[]> = {
   fhs_normal: genFhsNormal,
   fhs_arrhythmia: genFhsArrhythmia,
+  fhs_brady: (req) => genFhsRhythm(req, "sinus_bradycardia"),
+  fhs_tachy: (req) => genFhsRhythm(req, "sinus_tachycardia"),
+  fhs_pac: (req) => genFhsRhythm(req, "pac"),
+  fhs_blocked_pac: (req) => genFhsRhythm(req, "blocked_pac"),
+  fhs_av_block_2to1: (req) => genFhsRhythm(req, "av_block_2to1"),
+  fhs_av_block_complete: (req) => genFhsRhythm(req, "av_block_complete"),
+  fhs_svt: (req) => genFhsRhythm(req, "svt"),
+  fhs_murmur_vsd: (req) => genFhsMurmur(req, "vsd"),
+  fhs_murmur_tr: (req) => genFhsMurmur(req, "tricuspid_regurgitation"),
+  fhs_murmur_outflow: (req) => genFhsMurmur(req, "outflow_obstruction"),
+  fhs_accel: genFhsAccel,
+  fhs_sinusoidal: genFhsSinusoidal,
+  fhs_decel_early: (req) => genFhsDecel(req, "early"),
+  fhs_decel_late: (req) => genFhsDecel(req, "late"),
+  fhs_decel_variable: (req) => genFhsDecel(req, "variable"),
+  fhs_decel_prolonged: (req) => genFhsDecel(req, "prolonged"),
+  fhs_labor: (req) => genFhsLabor(req, ["latent", "active", "second"], 60),
+  fhs_labor_first: (req) => genFhsLabor(req, ["latent", "active"], 40),
+  fhs_labor_second: (req) => genFhsLabor(req, ["second"], 20),
+  fhs_states: genFhsStates,
+  fhs_twins: genFhsTwins,
+  fhs_array: genFhsArray,
+  fhs_high_bmi: (req) => genFhsTissue(req, { bmi: 40 }),
+  fhs_anterior_placenta: (req) => genFhsTissue(req, { placenta: "anterior" }),
+  fhs_spot_good: (req) => genFhsSpot(req, true),
+  fhs_spot_bad: (req) => genFhsSpot(req, false),
+  fhs_mhr_pickup: (req) => genFhsPickup(req),
+  fhs_mhr_tachy: (req) => genFhsPickup(req, { mhr_drift: { to: "fhr" } }),
+  fhs_mhr_half: (req) => genFhsPickup(req, { mhr_drift: { to: "half_fhr" } }),
+  fhs_mhr_double: (req) => genFhsPickup(req, { fhr: 90, mhr_drift: { to: "double_fhr" } }),
+  fhs_maternal: genFhsMaternal,
+  fhs_doppler: genFhsDoppler,
+  fhs_fecg: genFhsFecg,
   fhs_move_strong: genFhsMoveStrong,
   fhs_move_weak: genFhsMoveWeak,
   fhs_uc_fast: genFhsUcFast,
   fhs_uc_slow: genFhsUcSlow,
+  pcg_normal: (req) => genAdult(req, null),
+  pcg_systolic_murmur: (req) => genAdult(req, "systolic_murmur"),
+  pcg_diastolic_murmur: (req) => genAdult(req, "diastolic_murmur"),
+  pcg_murmur_as: (req) => genAdult(req, "systolic_murmur", { shape: "diamond", timing: "mid", pitch: "medium", grade: 3 }),
+  pcg_murmur_mr: (req) => genAdult(req, "systolic_murmur", { shape: "plateau", timing: "holo", pitch: "high", grade: 3 }),
+  pcg_murmur_ar: (req) => genAdult(req, "diastolic_murmur", { shape: "decrescendo", timing: "early", pitch: "high", grade: 2 }),
+  pcg_murmur_ms: (req) => genAdult(req, "diastolic_murmur", { shape: "rumble", pitch: "low", grade: 2 }),
+  pcg_s2_split: (req) => genAdult(req, "s2_split"),
+  pcg_s2_split_wide: (req) => genAdult(req, "s2_split", {}, "wide"),
+  pcg_s2_split_fixed: (req) => genAdult(req, "s2_split", {}, "fixed"),
+  pcg_s2_split_paradoxical: (req) => genAdult(req, "s2_split", {}, "paradoxical"),
+  pcg_s3: (req) => genAdult(req, "s3"),
+  pcg_s4: (req) => genAdult(req, "s4"),
+  pcg_ejection_click: (req) => genAdult(req, "ejection_click"),
+  pcg_midsystolic_click: (req) => genAdult(req, "midsystolic_click"),
+  pcg_opening_snap: (req) => genAdult(req, "opening_snap"),
+  pcg_friction_rub: (req) => genAdult(req, "friction_rub"),
 };
 
 export default function Index() {
@@ -85,30 +324,69 @@ export default function Index() {
   const [dataCount, setDataCount] = useState([1000]);
   const [seriesCount, setSeriesCount] = useState([1]);
   const [datasetCount, setDatasetCount] = useState([3]);
+  const [seedText, setSeedText] = useState("");
+  const [useGestationalAge, setUseGestationalAge] = useState(false);
+  const [gestationalAge, setGestationalAge] = useState([36]);
+  const [heartRate, setHeartRate] = useState([72]);
+  const [snrDb, setSnrDb] = useState([6]);
+  const [sampleRate, setSampleRate] = useState([1000]);
+  const [eventTiming, setEventTiming] = useState([0]); // 0 = the event's default
+  const [eventIntensity, setEventIntensity] = useState([0]);
+  const [murmurGrade, setMurmurGrade] = useState([0]); // 0 = the murmur's own grade
+  const [respRate, setRespRate] = useState([15]);
+  const [sdnnMs, setSdnnMs] = useState([0]); // 0 = constant RR
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedData, setGeneratedData] = useState<DataPoint[]>([]);
+  const [annotations, setAnnotations] = useState<SeriesAnnotations[]>([]);
+  const [ctgTraces, setCtgTraces] = useState<Array<{ series: number; ctg: CtgTrace }>>([]);
+  const [dopplerTraces, setDopplerTraces] = useState<Array<{ series: number; doppler: DopplerTrace }>>([]);
+  const [ecgTraces, setEcgTraces] = useState<Array<{ series: number; fecg: FecgTrace }>>([]);
 
   const handleGenerate = async () => {
     if (!selectedDataType) return;
     setIsGenerating(true);
     setTimeout(() => {
       const all: DataPoint[] = [];
+      const labels: SeriesAnnotations[] = [];
+      const traces: Array<{ series: number; ctg: CtgTrace }> = [];
+      const dopplers: Array<{ series: number; doppler: DopplerTrace }> = [];
+      const ecgs: Array<{ series: number; fecg: FecgTrace }> = [];
       const gen = generators[selectedDataType] ?? genFhsNormal;
       const totalSeries = Math.max(1, datasetCount[0]);
-      for (let s = 0; s < totalSeries; s++) {
-        try {
-          const values = gen(dataCount[0], cycles[0]);
+      try {
+        const seed = seedText.trim() === "" ? null : Number(seedText) >>> 0;
+        const gestationalAgeWeeks = useGestationalAge ? gestationalAge[0] : null;
+        const series = gen({
+          count: dataCount[0], cycles: cycles[0], samples: totalSeries, seed, gestationalAgeWeeks,
+          heartRate: heartRate[0], snrDb: snrDb[0], fs: sampleRate[0],
+          eventTimingMs: eventTiming[0] || null, eventIntensity: eventIntensity[0] || null,
+          murmurGrade: murmurGrade[0] || null, respRate: respRate[0], sdnnMs: sdnnMs[0] || null,
+        });
+        series.forEach(({ values, meta, sourceLength, ctg, doppler, fecg, channel }, s) => {
+          if (meta) {
+            const dopplerLabel: DopplerLabel | undefined = doppler && {
+              fs: doppler.fs, events: doppler.events, carrier_mhz: doppler.carrier_mhz, angle_deg: doppler.angle_deg, depth_cm: doppler.depth_cm, gain: doppler.gain,
+            };
+            const ecg: EcgLabel | undefined = fecg && { fetal_r: fecg.fetal_r, maternal_r: fecg.maternal_r, fetal_emd_sec: fecg.fetal_emd_sec };
+            labels.push({ series: s, source_length: sourceLength ?? values.length, export_length: values.length, meta, channel, doppler: dopplerLabel, ecg });
+          }
+          if (ctg) traces.push({ series: s, ctg });
+          if (doppler) dopplers.push({ series: s, doppler });
+          if (fecg) ecgs.push({ series: s, fecg });
           console.log(`Generated ${selectedDataType} series ${s}: ${values.length} points, sample values: ${values.slice(0, 5).map(v => v.toFixed(4)).join(', ')}`);
-          const processedValues = values.map((v) => v * (1 + (s * 0.05)) + noise(0.02 * s));
-          for (let i = 0; i < processedValues.length; i++) {
-            all.push({ timestamp: i, value: processedValues[i], type: selectedDataType, series: s });
+          for (let i = 0; i < values.length; i++) {
+            all.push({ timestamp: i, value: values[i], type: selectedDataType, series: s });
           }
-        } catch (e) {
-          console.error(`Error generating ${selectedDataType} series ${s}:`, e);
-        }
+        });
+      } catch (e) {
+        console.error(`Error generating ${selectedDataType}:`, e);
       }
       console.log(`Total data points generated: ${all.length}`);
       setGeneratedData(all);
+      setAnnotations(labels);
+      setCtgTraces(traces);
+      setDopplerTraces(dopplers);
+      setEcgTraces(ecgs);
       setIsGenerating(false);
     }, 600);
   };
@@ -128,7 +406,47 @@ export default function Index() {
     document.body.removeChild(link);
   };
 
+  const downloadBlob = (content: string, mime: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mime }));
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadAnnotations = () => {
+    if (annotations.length === 0) return;
+    downloadBlob(JSON.stringify({ type: selectedDataType, series: annotations }), "application/json", `auscultsim_${selectedDataType}_annotations.json`);
+  };
+
+  // 4 Hz CTG reference (FHR + MHR + toco), one block of rows per series
+  const handleDownloadCtg = () => {
+    if (ctgTraces.length === 0) return;
+    // twin recordings carry a second FHR channel; singletons leave it empty
+    const rows = ctgTraces.flatMap(({ series, ctg }) => ctg.t.map((t, i) => `${t},${ctg.fhr[i]},${ctg.fhr2?.[i] ?? ""},${ctg.mhr?.[i] ?? ""},${ctg.toco[i]},${series}`));
+    downloadBlob("time,fhr_bpm,fhr2_bpm,mhr_bpm,toco_mmhg,series\n" + rows.join("\n"), "text/csv", `auscultsim_${selectedDataType}_ctg.csv`);
+  };
+
+  // Doppler audio at its own sample rate; valve events are in the annotations
+  const handleDownloadDoppler = () => {
+    if (dopplerTraces.length === 0) return;
+    const rows = dopplerTraces.flatMap(({ series, doppler }) => doppler.t.map((t, i) => `${t},${doppler.y[i]},${series}`));
+    downloadBlob("time,doppler,series\n" + rows.join("\n"), "text/csv", `auscultsim_${selectedDataType}_doppler.csv`);
+  };
+
+  // Abdominal ECG mixture and its clean stems, at the fPCG source rate
+  const handleDownloadEcg = () => {
+    if (ecgTraces.length === 0) return;
+    const rows = ecgTraces.flatMap(({ series, fecg }) => fecg.y.map((v, i) => `${i / fecg.fs},${v},${fecg.fecg[i]},${fecg.mecg[i]},${series}`));
+    downloadBlob("time,abdominal_mv,fecg_mv,mecg_mv,series\n" + rows.join("\n"), "text/csv", `auscultsim_${selectedDataType}_ecg.csv`);
+  };
+
   const selectedType = dataTypes.find((type) => type.id === selectedDataType);
+  const usedSeed = annotations[0]?.meta.params.seed;
+  const usedFs = annotations[0]?.meta.fs ?? 1000;
 
   // Build preview series grouped data
   const seriesIdsAll = useMemo(
@@ -245,6 +563,86 @@ export default function Index() {
                     </div>
                   </div>
 
+                  {selectedType?.category === "Fetal Heart Sounds" && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-tech-blue-200">
+                          Gestational Age: {useGestationalAge ? `${gestationalAge[0]} weeks` : "off"}
+                        </Label>
+                        <Switch checked={useGestationalAge} onCheckedChange={setUseGestationalAge} />
+                      </div>
+                      <Slider value={gestationalAge} onValueChange={setGestationalAge} max={GA_RANGE[1]} min={GA_RANGE[0]} step={1} disabled={!useGestationalAge} className="w-full" />
+                      <div className="flex justify-between text-xs text-tech-blue-400"><span>{GA_RANGE[0]}</span><span>{GA_RANGE[1]}</span></div>
+                    </div>
+                  )}
+
+                  {selectedType?.category === "Adult Heart Sounds" && (
+                    <div className="grid md:grid-cols-4 gap-6">
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">Heart Rate: {heartRate[0]} bpm</Label>
+                        <Slider value={heartRate} onValueChange={setHeartRate} max={180} min={40} step={1} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>40</span><span>180</span></div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">SNR: {snrDb[0]} dB</Label>
+                        <Slider value={snrDb} onValueChange={setSnrDb} max={30} min={-5} step={1} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>-5</span><span>30</span></div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">Sample Rate: {sampleRate[0]} Hz</Label>
+                        <Slider value={sampleRate} onValueChange={setSampleRate} max={8000} min={1000} step={1000} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>1000</span><span>8000</span></div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">HRV (SDNN): {sdnnMs[0] ? `${sdnnMs[0]} ms` : "off"}</Label>
+                        <Slider value={sdnnMs} onValueChange={setSdnnMs} max={150} min={0} step={5} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>off</span><span>150 ms</span></div>
+                      </div>
+                    </div>
+                  )}
+
+                  {ADULT_EVENT_TYPES.includes(selectedDataType) && (
+                    <div className="grid md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">Event Timing: {eventTiming[0] ? `${eventTiming[0]} ms` : "default"}</Label>
+                        <Slider value={eventTiming} onValueChange={setEventTiming} max={200} min={0} step={5} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>default</span><span>200 ms</span></div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-tech-blue-200">Event Intensity: {eventIntensity[0] ? `${eventIntensity[0]} × S1` : "default"}</Label>
+                        <Slider value={eventIntensity} onValueChange={setEventIntensity} max={1} min={0} step={0.05} className="w-full" />
+                        <div className="flex justify-between text-xs text-tech-blue-400"><span>default</span><span>1.0</span></div>
+                      </div>
+                    </div>
+                  )}
+
+                  {ADULT_MURMUR_TYPES.includes(selectedDataType) && (
+                    <div className="space-y-2">
+                      <Label className="text-tech-blue-200">Murmur Grade: {murmurGrade[0] ? `${murmurGrade[0]}/6` : "default"}</Label>
+                      <Slider value={murmurGrade} onValueChange={setMurmurGrade} max={6} min={0} step={1} className="w-full" />
+                      <div className="flex justify-between text-xs text-tech-blue-400"><span>default</span><span>6/6</span></div>
+                    </div>
+                  )}
+
+                  {selectedType?.category === "Adult Heart Sounds" && (ADULT_SPLIT_TYPES.includes(selectedDataType) || sdnnMs[0] > 0) && (
+                    <div className="space-y-2">
+                      <Label className="text-tech-blue-200">Respiration Rate: {respRate[0]} /min</Label>
+                      <Slider value={respRate} onValueChange={setRespRate} max={30} min={6} step={1} className="w-full" />
+                      <div className="flex justify-between text-xs text-tech-blue-400"><span>6</span><span>30</span></div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label className="text-tech-blue-200">Master Seed</Label>
+                    <Input
+                      value={seedText}
+                      onChange={(e) => setSeedText(e.target.value.replace(/[^0-9]/g, ""))}
+                      placeholder="Random"
+                      inputMode="numeric"
+                      className="bg-tech-dark-900/50 border-tech-blue-800/30 text-white"
+                    />
+                  </div>
+
                   <div className="flex gap-4">
                     <Button onClick={handleGenerate} disabled={isGenerating} className="flex-1 bg-tech-blue-600 hover:bg-tech-blue-700 text-white">
                       {isGenerating ? (
@@ -264,6 +662,26 @@ export default function Index() {
                       <Download className="h-4 w-4 mr-2" />
                       Download
                     </Button>
+
+                    <Button onClick={handleDownloadAnnotations} disabled={annotations.length === 0} variant="outline" className="border-tech-blue-500 text-tech-blue-300 hover:bg-tech-blue-600/20">
+                      <FileJson className="h-4 w-4 mr-2" />
+                      Annotations
+                    </Button>
+
+                    <Button onClick={handleDownloadCtg} disabled={ctgTraces.length === 0} variant="outline" className="border-tech-blue-500 text-tech-blue-300 hover:bg-tech-blue-600/20">
+                      <HeartPulse className="h-4 w-4 mr-2" />
+                      CTG
+                    </Button>
+
+                    <Button onClick={handleDownloadDoppler} disabled={dopplerTraces.length === 0} variant="outline" className="border-tech-blue-500 text-tech-blue-300 hover:bg-tech-blue-600/20">
+                      <AudioWaveform className="h-4 w-4 mr-2" />
+                      Doppler
+                    </Button>
+
+                    <Button onClick={handleDownloadEcg} disabled={ecgTraces.length === 0} variant="outline" className="border-tech-blue-500 text-tech-blue-300 hover:bg-tech-blue-600/20">
+                      <Activity className="h-4 w-4 mr-2" />
+                      ECG
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -294,7 +712,10 @@ export default function Index() {
                         <div className="flex justify-between"><span className="text-tech-blue-400">Cycles:</span><span className="text-white">{cycles[0]}</span></div>
                         <div className="flex justify-between"><span className="text-tech-blue-400">Generated Series:</span><span className="text-white">{datasetCount[0]}</span></div>
                         <div className="flex justify-between"><span className="text-tech-blue-400">Shown:</span><span className="text-white">{seriesCount[0]}</span></div>
-                        <div className="flex justify-between"><span className="text-tech-blue-400">Sample Rate:</span><span className="text-white">1000 Hz</span></div>
+                        <div className="flex justify-between"><span className="text-tech-blue-400">Sample Rate:</span><span className="text-white">{usedFs} Hz</span></div>
+                        {usedSeed != null && (
+                          <div className="flex justify-between"><span className="text-tech-blue-400">Seed:</span><span className="text-white">{usedSeed}</span></div>
+                        )}
                       </div>
                     </div>
 
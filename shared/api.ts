@@ -10,3 +10,94 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Abnormal findings of the adult PCG simulator (client/lib/pcg.ts)
+ */
+export type HeartAbnormality =
+  | "systolic_murmur" | "diastolic_murmur" | "s2_split" | "s3"
+  | "s4" | "ejection_click" | "midsystolic_click" | "opening_snap" | "friction_rub";
+
+/**
+ * Murmur taxonomy of the adult PCG simulator. timing places the murmur within systole or diastole; rumble is
+ * the mid-diastolic rumble with presystolic accentuation (diastolic only); grade is Levine 1-6.
+ */
+export type MurmurShape = "crescendo" | "decrescendo" | "diamond" | "plateau" | "rumble";
+export type MurmurTiming = "early" | "mid" | "late" | "holo";
+export type MurmurPitch = "low" | "medium" | "high";
+export interface MurmurProfile {
+  shape: MurmurShape;
+  timing: MurmurTiming;
+  pitch: MurmurPitch;
+  grade: number;
+}
+
+/**
+ * Realized murmur with its labels in CirCor wording, e.g. { timing: "Holosystolic", shape: "Plateau",
+ * pitch: "High", grading: "III/VI" }
+ */
+export interface MurmurAnnotation extends MurmurProfile {
+  phase: "systolic" | "diastolic";
+  band: [number, number]; // Hz
+  circor: { timing: string; shape: string; pitch: string; grading: string };
+}
+
+/**
+ * S2 splitting of the s2_split finding: physiological (widens on inspiration), wide (RBBB, pulmonic stenosis),
+ * fixed (ASD) and paradoxical (LBBB: P2 before A2, widest on expiration)
+ */
+export type S2SplitMode = "physiological" | "wide" | "fixed" | "paradoxical";
+
+/**
+ * Per-beat S2 components, aligned with s2Times (which holds the first one: A2, or P2 when paradoxical);
+ * inspiration is the breath phase at S2, from 0 (end-expiration) to 1 (peak inspiration)
+ */
+export interface S2SplitAnnotation {
+  mode: S2SplitMode;
+  respRate: number; // breaths/min
+  a2Times: number[];
+  p2Times: number[];
+  splitMs: number[];
+  inspiration: number[];
+}
+
+/**
+ * One labeled sound of the abnormal finding; start/end in seconds. beat indexes s1Times: the S1 that an
+ * S4 or the atrial rub component precedes, otherwise the beat the sound falls in. An s2_split event spans both S2 components.
+ */
+export interface HeartSoundEvent {
+  type: HeartAbnormality;
+  beat: number;
+  start: number;
+  end: number;
+  component?: "atrial" | "systolic" | "diastolic"; // friction rub
+}
+
+/**
+ * Labels and realized inputs of one adult PCG recording; times are in seconds
+ */
+export interface HeartSimMeta {
+  fs: number;
+  abnormal: HeartAbnormality | null;
+  s1Times: number[];
+  s2Times: number[];
+  rr: number[]; // realized length of every beat: the RR tachogram
+  events: HeartSoundEvent[];
+  murmur: MurmurAnnotation | null;
+  s2Split: S2SplitAnnotation | null;
+  params: {
+    sampleIndex: number; seed: number; cycles: number; heartRate: number; snrDb: number;
+    eventTimingMs: number | null; eventIntensity: number | null;
+    respRate: number; sdnnMs: number | null; lfHfRatio: number | null; // HRV off: null
+  };
+}
+
+/**
+ * One adult PCG recording; `seed` regenerates it
+ */
+export interface HeartSimOutput {
+  t: number[];
+  y: number[];
+  seed: number;
+  meta: HeartSimMeta;
+}